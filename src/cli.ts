@@ -1,13 +1,19 @@
 #!/usr/bin/env node
-import { Command } from 'commander';
+import { Command, InvalidArgumentError } from 'commander';
 import { extractText, getDocumentProxy } from 'unpdf';
-import { readFile, writeFile } from 'fs/promises';
+import { glob, readdir, readFile, stat, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { existsSync } from 'fs';
 import { TransactionsReader } from './readers/transactions.ts';
 import { TransactionsFormatter } from './formatters/transactions.ts';
+import { formatSavingsPlans } from './formatters/savings-plans.ts';
+import { formatPortfolioSnapshot } from './formatters/portfolio-snapshot.ts';
 
 import { CacheService } from './services/cache.ts';
+import { SessionStore } from './services/session.ts';
 import { MarketDataService } from './services/market-data.ts';
 import { logger } from './utils/logger.ts';
+import { type PdfTextItem } from './utils/pdf-layout.ts';
 
 import { BaseFormatter, type FormatOptions } from './formatters/index.ts';
 import { GhostfolioFormatter } from './formatters/ghostfolio.ts';
@@ -16,11 +22,18 @@ import { TradingViewFormatter } from './formatters/tradingview.ts';
 import { InvestbrainFormatter } from './formatters/investbrain.ts';
 import { PortfolioPerformanceFormatter } from './formatters/portfolio-performance.ts';
 
-import { TransactionType, type Transaction } from "./transaction.ts";
+import { mergeTransactions, TransactionType, type Transaction } from "./transaction.ts";
 import { TradeRepublicPdfReader } from './readers/traderepublic-pdf.ts';
-import { TradeRepublicWsReader } from './readers/traderepublic-ws.ts';
+import { TradeRepublicTradePdfReader } from './readers/traderepublic-trade-pdf.ts';
+import { TradeRepublicIncomePdfReader } from './readers/traderepublic-income-pdf.ts';
+import { TradeRepublicTaxReportReader, type TaxReport, type TaxReportComparison } from './readers/traderepublic-tax-report.ts';
+import { TradeRepublicWsReader, type TradeRepublicLocale } from './readers/traderepublic-ws.ts';
 import { ScalableCapitalPwReader } from './readers/scalablecapital-pw.ts';
-import { ScalableCapitalCsvReader } from './readers/scalablecapital-csv.ts';
+import { ScalableCapitalCsvReader, ScalableCapitalTransactionStatus } from './readers/scalablecapital-csv.ts';
+import { ScalableCapitalPdfReader } from './readers/scalablecapital-pdf.ts';
+import { PortfolioPerformanceCsvReader } from './readers/portfolio-performance-csv.ts';
+import { GhostfolioJsonReader } from './readers/ghostfolio-json.ts';
+import { GenericCsvReader } from './readers/generic-csv.ts';
 
 import { type Symbol } from './resolvers/index.ts';
 import { TradingViewResolver } from './resolvers/tradingview.ts';
@@ -31,6 +44,21 @@ function commaSeparatedList(value: string, previous: string[]): string[] {
     return value.split(',');
 }
 
+function parseLocale(value: string): TradeRepublicLocale {
+    if (!(value in TradeRepublicWsReader.LABELS)) {
+        throw new InvalidArgumentError(`Unsupported locale: ${value}`);
+    }
+    return value as TradeRepublicLocale;
+}
+
+function parsePositiveInteger(value: string): number {
+    const number = Number(value);
+    if (!Number.isInteger(number) || number < 1) {
+        throw new InvalidArgumentError('Not a positive integer.');
+    }
+    return number;
+}
+
 const program = new Command();
 
 program
@@ -42,41 +70,82 @@ interface ConvertOptions {
     formatter: string;
     exchanges: string[];
     currency?: string;
+    ignoreReconciliation?: boolean;
+    pending?: string;
+    mapping?: string;
 }
 
-const CONVERT_READERS = ['transactions-csv', 'traderepublic-pdf', 'scalablecapital-csv'];
+const CONVERT_READERS = ['transactions-csv', 'traderepublic-pdf', 'traderepublic-trade-pdf', 'traderepublic-income-pdf', 'scalablecapital-csv', 'scalablecapital-pdf', 'portfolio-performance-csv', 'ghostfolio-json', 'generic-csv'];
 
 program
     .command('convert')
     .description('Convert transaction files to various export formats')
-    .argument('<input>', 'Input file path')
+    .argument('<input>', 'Input file path, or a directory or glob of PDF documents for traderepublic-pdf and scalablecapital-pdf')
     .argument('<output>', 'Output file path')
     .option('-r, --reader <name>', `Reader: ${CONVERT_READERS.join(', ')}`, 'transactions-csv')
     .option('-f, --formatter <name>', 'Formatter: ghostfolio, tradingview, simplywall, investbrain, portfolio-performance, json', 'tradingview')
     .option('-e, --exchanges <exchanges>', 'Comma separated list of exchanges to use', commaSeparatedList, ['GETTEX', 'XETR', 'HAN', 'LSX'])
     .option('-c, --currency <currency>', 'Currency to filter exchanges by', 'EUR')
+    .option('--ignore-reconciliation', 'Convert Trade Republic statements even if they do not add up to the account overview')
+    .option('--pending <path>', 'Also convert pending Scalable Capital orders into this file, as a forecast')
+    .option('-m, --mapping <path>', 'JSON or YAML mapping file of the generic-csv reader')
     .action(async (inputPath: string, outputPath: string, options: ConvertOptions) => {
         const cache = new CacheService();
         const marketDataService = createMarketDataService(cache);
 
         let transactions;
         if (options.reader === 'traderepublic-pdf') {
-            logger.info(`Reading PDF from: ${inputPath}`);
-            const buffer = await readFile(inputPath);
-            const pdf = await getDocumentProxy(new Uint8Array(buffer));
-            const { text } = await extractText(pdf, { mergePages: false });
-            logger.info(`Extracted ${text.length} pages from PDF`);
-
             const reader = new TradeRepublicPdfReader();
-            transactions = await reader.readTransactions({ pages: text });
+            const statements: PdfTextItem[][][] = [];
+            for (const path of await resolvePdfPaths(inputPath)) {
+                statements.push(await extractPdfLayout(path));
+            }
+            transactions = await reader.readTransactions({
+                statements,
+                ignoreReconciliation: options.ignoreReconciliation,
+            });
+        } else if (options.reader === 'traderepublic-trade-pdf') {
+            const reader = new TradeRepublicTradePdfReader();
+            transactions = await reader.readTransactions({ pages: await extractPdfPages(inputPath) });
+        } else if (options.reader === 'traderepublic-income-pdf') {
+            const reader = new TradeRepublicIncomePdfReader();
+            transactions = await reader.readTransactions({ pages: await extractPdfPages(inputPath) });
         } else if (options.reader === 'scalablecapital-csv') {
             const reader = new ScalableCapitalCsvReader();
             transactions = await reader.readTransactions({ inputPath });
+
+            if (options.pending) {
+                const pending = await reader.readTransactions({ inputPath, statuses: [ScalableCapitalTransactionStatus.PENDING] });
+                await formatAndSaveTransactions(pending, marketDataService, options.formatter, options.pending, {
+                    exchanges: options.exchanges,
+                    currency: options.currency,
+                });
+            }
+        } else if (options.reader === 'scalablecapital-pdf') {
+            const reader = new ScalableCapitalPdfReader();
+            const documents: string[][] = [];
+            for (const path of await resolvePdfPaths(inputPath)) {
+                documents.push(await extractPdfPages(path));
+            }
+            transactions = await reader.readTransactions({ documents });
+        } else if (options.reader === 'portfolio-performance-csv') {
+            const reader = new PortfolioPerformanceCsvReader();
+            transactions = await reader.readTransactions({ inputPath });
+        } else if (options.reader === 'ghostfolio-json') {
+            const reader = new GhostfolioJsonReader();
+            transactions = await reader.readTransactions({ inputPath });
+        } else if (options.reader === 'generic-csv') {
+            if (!options.mapping) {
+                throw new Error('The generic-csv reader needs a --mapping file');
+            }
+            const reader = await GenericCsvReader.fromFile(options.mapping);
+            transactions = await reader.readTransactions({ inputPath });
         } else {
             const reader = new TransactionsReader();
             transactions = await reader.readTransactions({ inputPath });
         }
 
+        saveSplits(cache, transactions);
         await formatAndSaveTransactions(transactions, marketDataService, options.formatter, outputPath, {
             exchanges: options.exchanges,
             currency: options.currency,
@@ -88,6 +157,15 @@ interface FetchOptions {
     phone?: string;
     token?: string;
     showToken?: boolean;
+    since?: string;
+    incremental?: boolean;
+    resume?: boolean;
+    concurrency: number;
+    portfolio?: boolean;
+    openingBalance?: boolean;
+    documents?: string;
+    savingsPlans?: string;
+    locale?: TradeRepublicLocale;
     scUsername?: string;
     scPassword?: string;
     scHeadless?: boolean;
@@ -103,6 +181,15 @@ program
     .option('--phone <number>', 'Phone number for authentication')
     .option('--token <token>', 'Use existing session token (skips authentication)')
     .option('--show-token', 'Display session token after authentication')
+    .option('--since <date|id>', 'Only fetch transactions newer than the given date or transaction id')
+    .option('--incremental', 'Only fetch transactions newer than those already in the output file and merge them into it')
+    .option('--resume', 'Keep the progress in the records folder of the working directory, so an interrupted fetch continues where it stopped')
+    .option('--portfolio', 'Fetch the current portfolio (positions and cash) as CSV or JSON instead of the transaction history, for scalablecapital-pw only the positions as transactions')
+    .option('--opening-balance', 'With --portfolio, write the portfolio as transactions: a BUY per position and a DEPOSIT per cash balance')
+    .option('--documents <dir>', 'Download the documents of each transaction (e.g. trade confirmations) into this folder')
+    .option('--savings-plans <path>', 'Also export the configured savings plans to this CSV or JSON file')
+    .option('--concurrency <number>', 'Number of transaction details requested in parallel', parsePositiveInteger, 5)
+    .option('--locale <locale>', 'Language of your Trade Republic app: en, de (default: en)', parseLocale)
     // Scalable Capital specific
     .option('--sc-username <username>', 'Scalable Capital username/email')
     .option('--sc-password <password>', 'Scalable Capital password')
@@ -118,24 +205,145 @@ program
                 username: options.scUsername,
                 password: options.scPassword,
                 headless: options.scHeadless !== false,
+                snapshot: options.portfolio,
+                sessionStore: new SessionStore(),
             });
+        } else if (source === 'traderepublic-ws' && options.portfolio) {
+            const reader = new TradeRepublicWsReader({ locale: options.locale });
+            const snapshot = await reader.readPortfolio({
+                phone: options.phone,
+                token: options.token,
+                showToken: options.showToken,
+                concurrency: options.concurrency,
+                sessionStore: new SessionStore(),
+            });
+            if (!options.openingBalance) {
+                const content = outputPath.endsWith('.json') ? JSON.stringify(snapshot, null, 2) : await formatPortfolioSnapshot(snapshot);
+                await writeFile(outputPath, content, 'utf-8');
+                logger.info(`✓ Successfully wrote portfolio to: ${outputPath}`);
+                return;
+            }
+            transactions = reader.parseOpeningBalance(snapshot);
         } else if (source === 'traderepublic-ws') {
-            const reader = new TradeRepublicWsReader();
-            transactions = await reader.readTransactions({
+            let existing: Transaction[] = [];
+            if (options.incremental && existsSync(outputPath)) {
+                existing = await new TransactionsReader().readTransactions({ inputPath: outputPath });
+            }
+
+            const knownIds = existing.map((tx) => tx.id).filter((id): id is string => !!id);
+            // Pending transactions are fetched again, so the merge picks up their execution or cancellation
+            const pendingIds = existing.filter((tx) => tx.id && tx.status === 'PENDING').map((tx) => tx.id!);
+            let since: Date | undefined;
+            if (options.since) {
+                const date = new Date(options.since);
+                if (isNaN(date.getTime())) {
+                    knownIds.push(options.since);
+                } else {
+                    since = date;
+                }
+            }
+
+            const reader = new TradeRepublicWsReader({ locale: options.locale });
+            const fetched = await reader.readTransactions({
                 phone: options.phone,
                 token: options.token,
                 showToken: options.showToken,
                 cacheRecords: options.debug,
+                resumable: options.resume,
+                since,
+                knownIds,
+                pendingIds,
+                concurrency: options.concurrency,
+                sessionStore: new SessionStore(),
+                documentsDir: options.documents,
             });
+
+            transactions = mergeTransactions(existing, fetched);
+            if (existing.length > 0) {
+                logger.info(`➕ Merged ${transactions.length - existing.length} new transactions into ${outputPath}`);
+            }
+
+            if (options.savingsPlans) {
+                const plans = await reader.readSavingsPlans({
+                    token: options.token,
+                    concurrency: options.concurrency,
+                    sessionStore: new SessionStore(),
+                });
+                const content = options.savingsPlans.endsWith('.json') ? JSON.stringify(plans, null, 2) : await formatSavingsPlans(plans);
+                await writeFile(options.savingsPlans, content, 'utf-8');
+                logger.info(`✓ Successfully wrote savings plans to: ${options.savingsPlans}`);
+            }
         } else {
             throw new Error(`Unknown source: ${source}`);
         }
 
+        const cache = new CacheService();
+        saveSplits(cache, transactions);
+        cache.close();
+
         const formatter = new TransactionsFormatter();
         const csv = await formatter.formatTransactions(transactions);
         await writeFile(outputPath, csv, 'utf-8');
     });
 
+interface TaxReportOptions {
+    transactions?: string;
+}
+
+program
+    .command('tax-report')
+    .description('Extract the yearly totals of a Trade Republic tax report as JSON')
+    .argument('<input>', 'Tax report PDF file path')
+    .argument('<output>', 'Output JSON file path')
+    .option('-t, --transactions <path>', 'Compare the totals with the transactions of the same year from this CSV file')
+    .action(async (inputPath: string, outputPath: string, options: TaxReportOptions) => {
+        const reader = new TradeRepublicTaxReportReader();
+        const report = reader.parse(await extractPdfPages(inputPath));
+        if (!report) {
+            throw new Error(`Could not parse tax report: ${inputPath}`);
+        }
+
+        const summary: { report: TaxReport; comparison?: TaxReportComparison[] } = { report };
+        if (options.transactions) {
+            const transactions = await new TransactionsReader().readTransactions({ inputPath: options.transactions });
+            summary.comparison = reader.compare(report, transactions);
+
+            for (const skipped of summary.comparison.filter((c) => c.matches === null)) {
+                logger.warn(`Tax report ${report.year}: ${skipped.field} is not comparable, the transactions do not contain it`);
+            }
+            const mismatches = summary.comparison.filter((c) => c.matches === false);
+            for (const mismatch of mismatches) {
+                logger.error(mismatch, `Tax report ${report.year}: ${mismatch.field} does not match the transactions`);
+            }
+            if (mismatches.length > 0) {
+                process.exitCode = 1;
+            } else {
+                logger.info(`✓ Tax report ${report.year} matches the transactions`);
+            }
+        }
+
+        await writeFile(outputPath, JSON.stringify(summary, null, 2));
+        logger.info(`✓ Successfully wrote to: ${outputPath}`);
+    });
+
+program
+    .command('logout')
+    .description('Remove stored broker sessions')
+    .argument('[source]', 'Only remove the session of this source: traderepublic-ws, scalablecapital-pw')
+    .action((source?: string) => {
+        const store = new SessionStore();
+        if (source === 'traderepublic-ws') {
+            store.delete(TradeRepublicWsReader.SESSION_KEY);
+        } else if (source === 'scalablecapital-pw') {
+            store.delete(ScalableCapitalPwReader.SESSION_KEY);
+        } else if (source) {
+            throw new Error(`Unknown source: ${source}`);
+        } else {
+            store.clear();
+        }
+        logger.info('✓ Logged out');
+    });
+
 interface ResolveOptions {
     resolver: string;
     cache: boolean;
@@ -203,6 +411,58 @@ program
 
 program.parse();
 
+/**
+ * Expand a directory or glob pattern to the PDF files it contains, other paths are returned as is
+ */
+async function resolvePdfPaths(inputPath: string): Promise<string[]> {
+    let paths: string[];
+    if (existsSync(inputPath) && (await stat(inputPath)).isDirectory()) {
+        paths = (await readdir(inputPath)).filter((name) => name.toLowerCase().endsWith('.pdf')).map((name) => join(inputPath, name));
+    } else if (/[*?[\]{}]/.test(inputPath)) {
+        paths = [];
+        for await (const path of glob(inputPath)) {
+            paths.push(path);
+        }
+    } else {
+        return [inputPath];
+    }
+
+    if (paths.length === 0) {
+        throw new Error(`No PDF files found in ${inputPath}`);
+    }
+    logger.info(`Found ${paths.length} PDF files in ${inputPath}`);
+    return paths.sort();
+}
+
+async function extractPdfPages(inputPath: string): Promise<string[]> {
+    logger.info(`Reading PDF from: ${inputPath}`);
+    const buffer = await readFile(inputPath);
+    const pdf = await getDocumentProxy(new Uint8Array(buffer));
+    const { text } = await extractText(pdf, { mergePages: false });
+    logger.info(`Extracted ${text.length} pages from PDF`);
+    return text;
+}
+
+/**
+ * Extract the text items of every page with their positions, for readers that rebuild tables from the layout
+ */
+async function extractPdfLayout(inputPath: string): Promise<PdfTextItem[][]> {
+    logger.info(`Reading PDF from: ${inputPath}`);
+    const buffer = await readFile(inputPath);
+    const pdf = await getDocumentProxy(new Uint8Array(buffer));
+
+    const pages: PdfTextItem[][] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+        const page = await pdf.getPage(i);
+        const { items } = await page.getTextContent();
+        pages.push(items
+            .filter((item) => 'str' in item)
+            .map((item) => ({ text: item.str, x: item.transform[4], y: item.transform[5], width: item.width, height: item.height })));
+    }
+    logger.info(`Extracted ${pages.length} pages from PDF`);
+    return pages;
+}
+
 function createMarketDataService(cache?: CacheService): MarketDataService {
     return new MarketDataService({
         cache,
@@ -210,6 +470,13 @@ function createMarketDataService(cache?: CacheService): MarketDataService {
     });
 }
 
+function saveSplits(cache: CacheService, transactions: Transaction[]): void {
+    const count = cache.addTransactionSplits(transactions);
+    if (count > 0) {
+        logger.info(`✓ Stored ${count} splits in cache`);
+    }
+}
+
 function displaySymbol(results: Symbol | Symbol[]): void {
     const items = Array.isArray(results) ? results : [results];
     logger.info(`✓ Found ${items.length} matches:`);
@@ -99,4 +99,21 @@ describe('GhostfolioFormatter', () => {
             expect(actualLines[5]).toBe(expectedLines[5]);
         });
     });
+
+    describe('corporate actions', () => {
+        it('should import transfers as buy and sell and skip splits', async () => {
+            const formatter = new GhostfolioFormatter(mockMarketDataService);
+            const transactions: Transaction[] = [
+                { id: '1', date: new Date('2024-06-10'), type: TransactionType.TRANSFER_IN, isin: 'US42809H1077', shares: 3, price: 50, currency: 'EUR' },
+                { id: '2', date: new Date('2024-06-11'), type: TransactionType.TRANSFER_OUT, isin: 'US42809H1077', shares: 3, price: 55, currency: 'EUR' },
+                { id: '3', date: new Date('2024-06-12'), type: TransactionType.SPLIT, isin: 'US42809H1077', shares: 30, ratioFrom: 1, ratioTo: 10 },
+            ];
+
+            const result = await formatter.formatTransactions(transactions);
+            const lines = result.trim().split(/\r?\n/);
+            expect(lines.length).toBe(3);
+            expect(lines[1]).toBe('1,10-06-2024,BAS.DE,YAHOO,EUR,50,3,buy,0,');
+            expect(lines[2]).toBe('2,11-06-2024,BAS.DE,YAHOO,EUR,55,3,sell,0,');
+        });
+    });
 });
@@ -1,9 +1,19 @@
 import { writeToString, type Row } from '@fast-csv/format';
 import { BaseFormatter, type FormatOptions } from './index.ts';
-import { type Transaction } from "../transaction.ts";
+import { TransactionType, type Transaction } from "../transaction.ts";
 import { MarketDataService } from '../services/market-data.ts';
+import { logger } from '../utils/logger.ts';
 import dateFormat from 'dateformat';
 
+/**
+ * Corporate actions that Ghostfolio can import as a regular activity
+ */
+const CORPORATE_ACTIONS: Partial<Record<TransactionType, string>> = {
+    [TransactionType.SPINOFF]: 'buy',
+    [TransactionType.TRANSFER_IN]: 'buy',
+    [TransactionType.TRANSFER_OUT]: 'sell',
+};
+
 /**
  * Converts parsed transaction data to Ghostfolio CSV format
  *
@@ -49,6 +59,12 @@ export class GhostfolioFormatter extends BaseFormatter {
      * @returns Array of values for CSV row
      */
     async formatTransactionRow(tx: Transaction, options: FormatOptions): Promise<Row | null> {
+        // Ghostfolio applies splits from its data provider and has no activity type for mergers
+        if (tx.type === TransactionType.SPLIT || tx.type === TransactionType.MERGER) {
+            logger.warn({ transaction: tx }, `Unhandeled transaction type: ${tx.type}`);
+            return null;
+        }
+
         let dataSource = 'YAHOO';
         const units = tx.shares ?? 1;
         const unitPrice = tx.price ?? tx.amount ?? 0;
@@ -71,7 +87,7 @@ export class GhostfolioFormatter extends BaseFormatter {
             tx.currency || options?.currency || 'EUR',
             unitPrice,
             units,
-            (tx.type || '').toLowerCase(),
+            CORPORATE_ACTIONS[tx.type] || (tx.type || '').toLowerCase(),
             (tx.fee || 0) + (tx.tax || 0),
             note,
         ];
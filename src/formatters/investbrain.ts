@@ -1,9 +1,19 @@
 import { writeToString, type Row } from '@fast-csv/format';
 import { BaseFormatter, type FormatOptions } from './index.ts';
-import { type Transaction } from "../transaction.ts";
+import { TransactionType, type Transaction } from "../transaction.ts";
 import { MarketDataService } from '../services/market-data.ts';
+import { logger } from '../utils/logger.ts';
 import dateFormat from 'dateformat';
 
+/**
+ * Corporate actions that Investbrain can import as a regular transaction
+ */
+const CORPORATE_ACTIONS: Partial<Record<TransactionType, string>> = {
+    [TransactionType.SPINOFF]: TransactionType.BUY,
+    [TransactionType.TRANSFER_IN]: TransactionType.BUY,
+    [TransactionType.TRANSFER_OUT]: TransactionType.SELL,
+};
+
 /**
  * Converts parsed transaction data to Investbrain CSV format
  *
@@ -44,6 +54,12 @@ export class InvestbrainFormatter extends BaseFormatter {
     async formatTransactionRow(tx: Transaction, options: FormatOptions): Promise<Row | null> {
         const { account } = options;
 
+        // Investbrain has no transaction type for splits and mergers
+        if (tx.type === TransactionType.SPLIT || tx.type === TransactionType.MERGER) {
+            logger.warn({ transaction: tx }, `Unhandeled transaction type: ${tx.type}`);
+            return null;
+        }
+
         let units = tx.shares || 1;
         let unitPrice = tx.price || 0;
 
@@ -63,7 +79,7 @@ export class InvestbrainFormatter extends BaseFormatter {
         return [
             tx.id || '',
             this.formatDate(tx.date),
-            tx.type,
+            CORPORATE_ACTIONS[tx.type] || tx.type,
             symbol,
             units,
             unitPrice || 0,
@@ -48,7 +48,7 @@ describe('PortfolioPerformanceFormatter', () => {
 
             // Buy transaction
             // Date;Type;Security name;ISIN;Note;Shares;Operation currency;Fees;Taxes/Charges;Value
-            // 2023-01-01;Buy;Apple Inc.;US0378331005;;10;USD;5;2;1500
+            // 2023-01-01;Buy;Apple Inc.;US0378331005;;10;USD;5;2;1507
             const buyLine = lines[1].split(';');
             expect(buyLine[0]).toBe('2023-01-01');
             expect(buyLine[1]).toBe('Buy');
@@ -58,7 +58,8 @@ describe('PortfolioPerformanceFormatter', () => {
             expect(buyLine[6]).toBe('USD');
             expect(buyLine[7]).toBe('5');
             expect(buyLine[8]).toBe('2');
-            expect(buyLine[9]).toBe('1500');
+            // Value of a buy includes the costs
+            expect(buyLine[9]).toBe('1507');
 
             // Dividend transaction
             // 2023-01-01;Dividend;Apple Inc.;US0378331005;;10;USD;0;0;2.5
@@ -66,5 +67,23 @@ describe('PortfolioPerformanceFormatter', () => {
             expect(divLine[1]).toBe('Dividend');
             expect(divLine[9]).toBe('2.5');
         });
+
+        it('should format transfers as deliveries and skip splits', async () => {
+            const formatter = new PortfolioPerformanceFormatter(mockMarketDataService);
+            const date = new Date('2024-06-10T12:00:00Z');
+
+            const transactions: Transaction[] = [
+                { date, type: TransactionType.TRANSFER_IN, isin: 'US0378331005', name: 'Apple Inc.', shares: 4, price: 150, currency: 'USD' },
+                { date, type: TransactionType.TRANSFER_OUT, isin: 'US0378331005', name: 'Apple Inc.', shares: 4, price: 190, currency: 'USD' },
+                { date, type: TransactionType.SPLIT, isin: 'US0378331005', name: 'Apple Inc.', ratioFrom: 1, ratioTo: 4 },
+            ];
+
+            const result = await formatter.formatTransactions(transactions);
+            const lines = result.trim().split('\n');
+
+            expect(lines).toHaveLength(3);
+            expect(lines[1]).toBe('2024-06-10;Delivery (Inbound);Apple Inc.;US0378331005;;4;USD;0;0;600');
+            expect(lines[2]).toBe('2024-06-10;Delivery (Outbound);Apple Inc.;US0378331005;;4;USD;0;0;760');
+        });
     });
 });
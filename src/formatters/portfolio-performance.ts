@@ -2,6 +2,7 @@ import { writeToString, type Row } from '@fast-csv/format';
 import { BaseFormatter, type FormatOptions } from './index.ts';
 import { TransactionType, type Transaction } from "../transaction.ts";
 import { MarketDataService } from '../services/market-data.ts';
+import { logger } from '../utils/logger.ts';
 import dateFormat from 'dateformat';
 
 const TYPE_MAP: Record<string, string> = {
@@ -13,6 +14,9 @@ const TYPE_MAP: Record<string, string> = {
     [TransactionType.TAX]: 'Taxes',
     [TransactionType.DEPOSIT]: 'Deposit',
     [TransactionType.WITHDRAWAL]: 'Removal',
+    [TransactionType.SPINOFF]: 'Delivery (Inbound)',
+    [TransactionType.TRANSFER_IN]: 'Delivery (Inbound)',
+    [TransactionType.TRANSFER_OUT]: 'Delivery (Outbound)',
 };
 
 export class PortfolioPerformanceFormatter extends BaseFormatter {
@@ -43,26 +47,22 @@ export class PortfolioPerformanceFormatter extends BaseFormatter {
     }
 
     private async formatTransactionRow(tx: Transaction, options: FormatOptions): Promise<Row | null> {
-        let type = TYPE_MAP[tx.type] || null;
-        let value = Math.abs((tx.price || 0) * (tx.shares || 0));
-
-        // Special handling for dividends
-        if (tx.type === 'dividend') {
-            // For dividends, we might have 'value' directly if price/quantity are 0
-            // But standardized Transaction should have quantity/price.
-            // However, if price is per-share dividend, value = price * quantity is correct.
-            if (tx.amount && value === 0) {
-                value = Math.abs(tx.amount);
-            }
+        // Splits and mergers are security events in Portfolio Performance, they can't be imported as transactions
+        if (tx.type === TransactionType.SPLIT || tx.type === TransactionType.MERGER) {
+            logger.warn({ transaction: tx }, `Unhandeled transaction type: ${tx.type}`);
+            return null;
         }
 
+        let type = TYPE_MAP[tx.type] || null;
+        const value = this.formatValue(tx);
+
         return [
             tx.date ? this.formatDate(tx.date) : '',
             type,
             tx.name || '',
             tx.isin || '',
             '', // Note
-            tx.shares || 0,
+            tx.shares || '', // Empty for cash transactions
             tx.currency || 'EUR',
             tx.fee || 0,
             tx.tax || 0,
@@ -70,6 +70,29 @@ export class PortfolioPerformanceFormatter extends BaseFormatter {
         ];
     }
 
+    /**
+     * Value as booked on the cash account, which is how Portfolio Performance reads it:
+     * costs are included in buys and deducted from sells. Deliveries don't touch the account, their value is the one of the shares.
+     */
+    private formatValue(tx: Transaction): number {
+        const gross = Math.abs((tx.price || 0) * (tx.shares || 0));
+        const costs = (tx.fee || 0) + (tx.tax || 0);
+
+        if (tx.type === TransactionType.TRANSFER_IN || tx.type === TransactionType.TRANSFER_OUT || tx.type === TransactionType.SPINOFF) {
+            return gross;
+        }
+        if (tx.amount !== undefined) {
+            return Math.abs(tx.amount);
+        }
+        if (tx.type === TransactionType.BUY) {
+            return Math.round((gross + costs) * 100) / 100;
+        }
+        if (tx.type === TransactionType.SELL) {
+            return Math.round((gross - costs) * 100) / 100;
+        }
+        return gross;
+    }
+
     private formatDate(date?: Date | string): string {
         if (!date) return '';
         return dateFormat(date, "UTC:yyyy-mm-dd");
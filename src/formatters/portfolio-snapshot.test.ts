@@ -0,0 +1,25 @@
+import { formatPortfolioSnapshot, PORTFOLIO_SNAPSHOT_HEADERS } from './portfolio-snapshot.ts';
+import { type PortfolioSnapshot } from "../transaction.ts";
+
+const SNAPSHOT: PortfolioSnapshot = {
+    date: new Date('2025-06-01T00:00:00.000Z'),
+    positions: [
+        { isin: 'US0378331005', name: 'Apple', shares: 4, averageBuyIn: 150, currentPrice: 200, currentValue: 800, currency: 'EUR' },
+        { isin: 'IE00B4L5Y983', shares: 1.5, averageBuyIn: 80 },
+    ],
+    cash: [{ currency: 'EUR', amount: 1234.5, available: 1000 }],
+};
+
+describe('formatPortfolioSnapshot', () => {
+    test('writes a row per position and cash balance', async () => {
+        const csv = await formatPortfolioSnapshot(SNAPSHOT);
+        const lines = csv.trim().split(/\r?\n/);
+
+        expect(lines).toEqual([
+            PORTFOLIO_SNAPSHOT_HEADERS.join(','),
+            'position,US0378331005,Apple,4,150,200,800,,,EUR',
+            'position,IE00B4L5Y983,,1.5,80,,,,,',
+            'cash,,,,,,,1234.5,1000,EUR',
+        ]);
+    });
+});
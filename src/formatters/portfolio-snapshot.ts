@@ -0,0 +1,20 @@
+import { type PortfolioSnapshot } from "../transaction.ts";
+import { writeToString, type Row } from '@fast-csv/format';
+
+export const PORTFOLIO_SNAPSHOT_HEADERS = [
+    'kind', 'isin', 'name', 'shares', 'averageBuyIn', 'currentPrice', 'currentValue', 'amount', 'available', 'currency',
+];
+
+/**
+ * Formats a portfolio snapshot as CSV, one row per position followed by one row per cash balance
+ */
+export async function formatPortfolioSnapshot(snapshot: PortfolioSnapshot): Promise<string> {
+    const rows: Row[] = [
+        ...snapshot.positions.map((p) => [
+            'position', p.isin, p.name ?? '', p.shares, p.averageBuyIn, p.currentPrice ?? '', p.currentValue ?? '', '', '', p.currency ?? '',
+        ]),
+        ...snapshot.cash.map((c) => ['cash', '', '', '', '', '', '', c.amount, c.available ?? '', c.currency]),
+    ];
+
+    return await writeToString(rows, { headers: PORTFOLIO_SNAPSHOT_HEADERS, alwaysWriteHeaders: true });
+}
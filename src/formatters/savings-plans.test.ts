@@ -0,0 +1,41 @@
+import { formatSavingsPlans, SAVINGS_PLAN_HEADERS } from './savings-plans.ts';
+import { type SavingsPlan } from "../transaction.ts";
+
+const SAMPLE_PLANS: SavingsPlan[] = [
+    {
+        id: 'plan-001',
+        isin: 'IE00B4L5Y983',
+        name: 'iShares Core MSCI World',
+        amount: 50,
+        currency: 'EUR',
+        interval: 'monthly',
+        nextExecutionDate: new Date('2025-07-02T00:00:00.000Z'),
+        status: 'active',
+    },
+    {
+        id: 'plan-002',
+        isin: 'US0378331005',
+        amount: 25,
+        currency: 'EUR',
+        interval: 'weekly',
+        status: 'paused',
+    },
+];
+
+describe('formatSavingsPlans', () => {
+    test('produces CSV with headers', async () => {
+        const csv = await formatSavingsPlans(SAMPLE_PLANS);
+        const lines = csv.trim().split(/\r?\n/);
+
+        expect(lines[0]).toBe(SAVINGS_PLAN_HEADERS.join(','));
+        expect(lines).toHaveLength(3);
+    });
+
+    test('formats dates and leaves missing values empty', async () => {
+        const csv = await formatSavingsPlans(SAMPLE_PLANS);
+        const lines = csv.trim().split(/\r?\n/);
+
+        expect(lines[1]).toBe('plan-001,IE00B4L5Y983,iShares Core MSCI World,50,EUR,monthly,2025-07-02,active');
+        expect(lines[2]).toBe('plan-002,US0378331005,,25,EUR,weekly,,paused');
+    });
+});
@@ -0,0 +1,21 @@
+import { type SavingsPlan } from "../transaction.ts";
+import { writeToString, type Row } from '@fast-csv/format';
+import dateFormat from 'dateformat';
+
+export const SAVINGS_PLAN_HEADERS: (keyof SavingsPlan)[] = [
+    'id', 'isin', 'name', 'amount', 'currency', 'interval', 'nextExecutionDate', 'status',
+];
+
+/**
+ * Formats savings plans as CSV, one row per plan
+ */
+export async function formatSavingsPlans(plans: SavingsPlan[]): Promise<string> {
+    const rows: Row[] = plans.map((plan) =>
+        SAVINGS_PLAN_HEADERS.map((h) => {
+            const v = plan[h];
+            return v instanceof Date ? dateFormat(v, 'UTC:yyyy-mm-dd') : (v ?? '');
+        }),
+    );
+
+    return await writeToString(rows, { headers: SAVINGS_PLAN_HEADERS, alwaysWriteHeaders: true });
+}
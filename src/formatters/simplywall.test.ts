@@ -115,5 +115,20 @@ describe('SimplywallFormatter', () => {
             expect(lines[1]).toBe('US0378331005,buy,2024/09/17,10,217,EUR');
             expect(lines[2]).toBe('US0378331005,sell,2024/09/18,10,240.01,EUR');
         });
+
+        it('should format spin-offs and transfers as buy and sell', async () => {
+            const formatter = new SimplywallFormatter();
+            const transactions: Transaction[] = [
+                { isin: 'DE000DTR0CK8', type: TransactionType.SPINOFF, shares: 5, price: 0, currency: 'EUR', date: new Date('2021-12-10T00:00:00Z') },
+                { isin: 'DE0008430026', type: TransactionType.TRANSFER_OUT, shares: 2, price: 180, currency: 'EUR', date: new Date('2024-06-11T00:00:00Z') },
+                { isin: 'DE0008430026', type: TransactionType.SPLIT, ratioFrom: 1, ratioTo: 2, date: new Date('2024-06-12T00:00:00Z') },
+            ];
+
+            const result = await formatter.formatTransactions(transactions);
+            const lines = result.trim().split(/\r?\n/);
+            expect(lines.length).toBe(3);
+            expect(lines[1]).toBe('DE000DTR0CK8,buy,2021/12/10,5,0,EUR');
+            expect(lines[2]).toBe('DE0008430026,sell,2024/06/11,2,180,EUR');
+        });
     });
 });
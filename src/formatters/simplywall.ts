@@ -28,14 +28,25 @@ export class SimplywallFormatter extends BaseFormatter {
     }
 
     private async formatTransactionRow(tx: Transaction, options: FormatOptions): Promise<Row | null> {
-        if (tx.type !== TransactionType.BUY && tx.type !== TransactionType.SELL) {
-            logger.warn({ transaction: tx }, `Unhandeled transaction type: ${tx.type}`);
-            return null;
+        let type: string;
+        switch (tx.type) {
+            case TransactionType.BUY:
+            case TransactionType.SPINOFF:
+            case TransactionType.TRANSFER_IN:
+                type = TransactionType.BUY;
+                break;
+            case TransactionType.SELL:
+            case TransactionType.TRANSFER_OUT:
+                type = TransactionType.SELL;
+                break;
+            default:
+                logger.warn({ transaction: tx }, `Unhandeled transaction type: ${tx.type}`);
+                return null;
         }
 
         return [
             tx.isin,
-            tx.type,
+            type,
             this.formatDate(tx.date),
             tx.shares || 1,
             tx.price,
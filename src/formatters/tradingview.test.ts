@@ -156,5 +156,20 @@ describe('TradingviewFormatter', () => {
             expect(lines[5]).toBe('$CASH,Deposit,5000,0,0,2024-08-24 00:00:00');
             expect(lines[6]).toBe('$CASH,Taxes and fees,10.25,0,0,2023-08-25 10:37:00');
         });
+
+        it('should format transfers as buy and sell and skip splits', async () => {
+            const formatter = new TradingViewFormatter(mockMarketDataService);
+            const transactions: Transaction[] = [
+                { isin: 'US0378331005', type: TransactionType.TRANSFER_IN, shares: 4, price: 150, fee: 0, date: new Date('2024-06-10T00:00:00Z') },
+                { isin: 'US0378331005', type: TransactionType.TRANSFER_OUT, shares: 4, price: 190, fee: 0, date: new Date('2024-07-10T00:00:00Z') },
+                { isin: 'US0378331005', type: TransactionType.SPLIT, ratioFrom: 1, ratioTo: 4, date: new Date('2020-08-31T00:00:00Z') },
+            ];
+
+            const result = await formatter.formatTransactions(transactions);
+            const lines = result.trim().split(/\r?\n/);
+            expect(lines.length).toBe(3);
+            expect(lines[1]).toBe('NASDAQ:AAPL,Buy,4,150,0,2024-06-10 00:00:00');
+            expect(lines[2]).toBe('NASDAQ:AAPL,Sell,4,190,0,2024-07-10 00:00:00');
+        });
     });
 });
@@ -64,6 +64,15 @@ export class TradingViewFormatter extends BaseFormatter {
                 if (tx.tax) this.cumulativeTax += tx.tax;
                 break;
 
+            // Positions moved in or out of the account, TradingView applies splits on its own
+            case TransactionType.SPINOFF:
+            case TransactionType.TRANSFER_IN:
+            case TransactionType.TRANSFER_OUT:
+                symbol = await this.getSymbolWithExchange(tx.isin, options);
+                side = tx.type === TransactionType.TRANSFER_OUT ? TradingViewSide.SELL : TradingViewSide.BUY;
+                qty = tx.shares || 0;
+                break;
+
             case TransactionType.DIVIDEND:
                 symbol = await this.getSymbolWithExchange(tx.isin, options);
                 side = TradingViewSide.DIVIDEND;
@@ -49,7 +49,7 @@ describe('TransactionsFormatter', () => {
         const csv = await formatter.formatTransactions(SAMPLE_TRANSACTIONS);
         const lines = csv.trim().split(/\r?\n/);
 
-        expect(lines[0]).toBe('id,type,status,isin,symbol,assetType,name,shares,price,amount,fee,tax,date,currency,comment,source');
+        expect(lines[0]).toBe('id,type,status,isin,symbol,assetType,name,shares,price,amount,fee,tax,date,currency,comment,source,documents,savingsPlan,ratioFrom,ratioTo,relatedIsin,grossAmount,withholdingTax,capitalGainsTax,solidaritySurcharge,churchTax');
         expect(lines).toHaveLength(4); // header + 3 rows
     });
 
@@ -57,7 +57,9 @@ describe('TransactionsFormatter', () => {
         expect(HEADERS).toEqual([
             'id', 'type', 'status', 'isin', 'symbol', 'assetType', 'name',
             'shares', 'price', 'amount', 'fee', 'tax', 'date', 'currency',
-            'comment', 'source',
+            'comment', 'source', 'documents', 'savingsPlan',
+            'ratioFrom', 'ratioTo', 'relatedIsin',
+            'grossAmount', 'withholdingTax', 'capitalGainsTax', 'solidaritySurcharge', 'churchTax',
         ]);
     });
 
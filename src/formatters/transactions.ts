@@ -5,7 +5,9 @@ import { BaseFormatter, type FormatOptions } from "./index.ts";
 export const HEADERS: (keyof Transaction)[] = [
     'id', 'type', 'status', 'isin', 'symbol', 'assetType', 'name',
     'shares', 'price', 'amount', 'fee', 'tax', 'date', 'currency',
-    'comment', 'source',
+    'comment', 'source', 'documents', 'savingsPlan',
+    'ratioFrom', 'ratioTo', 'relatedIsin',
+    'grossAmount', 'withholdingTax', 'capitalGainsTax', 'solidaritySurcharge', 'churchTax',
 ];
 
 export class TransactionsFormatter extends BaseFormatter {
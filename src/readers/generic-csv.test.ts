@@ -0,0 +1,146 @@
+import { GenericCsvReader } from './generic-csv.ts';
+import { TransactionType } from '../transaction.ts';
+
+const MAPPING_YAML = `
+name: neobank
+delimiter: ";"
+skipLines: 2
+columns:
+  id: Referenz
+  type: Vorgang
+  date: Buchungstag
+  time: Uhrzeit
+  isin: ISIN
+  name: Bezeichnung
+  shares: Stück
+  amount: Betrag
+  fee: Gebühr
+types:
+  Wertpapierkauf: buy
+  Wertpapierverkauf: sell
+  Gutschrift: deposit
+  Kontoführung: fee
+decimal: eu
+dateFormat: dd.MM.yyyy HH:mm
+timezone: "+01:00"
+amountSign: unsigned
+defaults:
+  currency: EUR
+filters:
+  - column: Status
+    notEquals: [storniert, offen]
+`;
+
+const EXPORT = `Kontoumsätze Depot 123456
+Zeitraum 01.01.2024 - 31.01.2024
+Referenz;Buchungstag;Uhrzeit;Vorgang;Status;ISIN;Bezeichnung;Stück;Betrag;Gebühr
+R1;02.01.2024;09:30;Wertpapierkauf;ausgeführt;US0378331005;Apple Inc.;10;1.501,00;1,00
+R2;03.01.2024;10:00;Wertpapierverkauf;storniert;US0378331005;Apple Inc.;5;750,00;1,00
+R3;15.01.2024;00:00;Gutschrift;ausgeführt;;;;1.000,00;
+R4;31.01.2024;00:00;Kontoführung;ausgeführt;;;;2,50;`;
+
+describe('GenericCsvReader', () => {
+    const reader = new GenericCsvReader(GenericCsvReader.parseMapping(MAPPING_YAML, 'neobank.yaml'));
+
+    it('should read the mapped columns', async () => {
+        const transactions = await reader.readTransactions({ inputContent: EXPORT });
+
+        expect(transactions.map((tx) => tx.id)).toEqual(['R1', 'R3', 'R4']);
+        expect(transactions[0]).toEqual(expect.objectContaining({
+            type: TransactionType.BUY,
+            isin: 'US0378331005',
+            name: 'Apple Inc.',
+            shares: 10,
+            price: 150,
+            amount: -1501,
+            fee: 1,
+            tax: 0,
+            currency: 'EUR',
+            date: new Date('2024-01-02T08:30:00Z'),
+            source: 'neobank',
+        }));
+    });
+
+    it('should derive the sign of unsigned amounts from the type', async () => {
+        const transactions = await reader.readTransactions({ inputContent: EXPORT });
+
+        expect(transactions.map((tx) => [tx.type, tx.amount])).toEqual([
+            [TransactionType.BUY, -1501],
+            [TransactionType.DEPOSIT, 1000],
+            [TransactionType.FEE, -2.5],
+        ]);
+    });
+
+    it('should reference columns by index in files without headers', async () => {
+        const headerless = new GenericCsvReader(GenericCsvReader.parseMapping(JSON.stringify({
+            headers: false,
+            columns: { date: 0, type: 1, amount: 2, currency: 3 },
+            decimal: 'us',
+            amountSign: 'inverted',
+        }), 'bank.json'));
+
+        const transactions = await headerless.readTransactions({ inputContent: '2024-02-01,withdrawal,"1,200.00",USD' });
+
+        expect(transactions).toEqual([expect.objectContaining({
+            type: TransactionType.WITHDRAWAL,
+            amount: -1200,
+            currency: 'USD',
+            date: new Date('2024-02-01'),
+        })]);
+    });
+
+    it('should convert dates of a named timezone', async () => {
+        const berlin = new GenericCsvReader({
+            columns: { type: 'Type', date: 'Date', amount: 'Amount' },
+            dateFormat: 'dd.MM.yyyy HH:mm',
+            timezone: 'Europe/Berlin',
+        });
+
+        const transactions = await berlin.readTransactions({ inputContent: `Type,Date,Amount
+deposit,15.01.2024 09:30,100
+deposit,15.07.2024 09:30,100` });
+
+        expect(transactions.map((tx) => tx.date)).toEqual([new Date('2024-01-15T08:30:00Z'), new Date('2024-07-15T07:30:00Z')]);
+    });
+
+    it('should apply the timezone to ISO dates without offset', async () => {
+        const utc = new GenericCsvReader({ columns: { type: 'Type', date: 'Date', amount: 'Amount' }, timezone: 'UTC' });
+        const berlin = new GenericCsvReader({ columns: { type: 'Type', date: 'Date', amount: 'Amount' }, timezone: 'Europe/Berlin' });
+        const inputContent = `Type,Date,Amount
+deposit,2024-01-15 09:30,100
+deposit,2024-07-15,100
+deposit,2024-07-15T09:30:00+02:00,100`;
+
+        const utcDates = (await utc.readTransactions({ inputContent })).map((tx) => tx.date);
+        const berlinDates = (await berlin.readTransactions({ inputContent })).map((tx) => tx.date);
+
+        expect(utcDates).toEqual([new Date('2024-01-15T09:30:00Z'), new Date('2024-07-15T00:00:00Z'), new Date('2024-07-15T07:30:00Z')]);
+        expect(berlinDates).toEqual([new Date('2024-01-15T08:30:00Z'), new Date('2024-07-14T22:00:00Z'), new Date('2024-07-15T07:30:00Z')]);
+    });
+
+    it('should reject unknown timezones', () => {
+        expect(() => new GenericCsvReader({ columns: { type: 'Type', date: 'Date' }, timezone: 'Europe/Atlantis' }))
+            .toThrow('Unsupported timezone in mapping: Europe/Atlantis');
+    });
+
+    it('should require the type and date columns', () => {
+        expect(() => new GenericCsvReader({ columns: { type: 'Type' } })).toThrow('Mapping needs the type and date columns');
+    });
+
+    it('should accept type names in any case and reject unknown ones', async () => {
+        const columns = { type: 'Type', date: 'Date', amount: 'Amount' };
+        const upperCase = new GenericCsvReader({ columns, types: { Kontoführung: 'FEE' } });
+
+        const [tx] = await upperCase.readTransactions({ inputContent: 'Type,Date,Amount\nKontoführung,2024-01-02,-2.50' });
+
+        expect(tx.type).toBe(TransactionType.FEE);
+        expect(() => new GenericCsvReader({ columns, types: { Kauf: 'byu' } })).toThrow('Invalid transaction type in mapping: types.Kauf is byu');
+    });
+
+    it('should reject invalid options', () => {
+        const columns = { type: 'Type', date: 'Date' };
+
+        expect(() => new GenericCsvReader({ columns, decimal: 'de' as 'eu' })).toThrow('Invalid decimal in mapping: de');
+        expect(() => new GenericCsvReader({ columns, amountSign: 'negative' as 'signed' })).toThrow('Invalid amountSign in mapping: negative');
+    });
+});
@@ -0,0 +1,334 @@
+import { parseTransactionType, parseAssetType, TransactionType, type Transaction } from "../transaction.ts";
+import { BaseReader, type ReaderOptions } from './index.ts';
+import { parseString } from '@fast-csv/parse';
+import { readFile } from 'fs/promises';
+import { parse as parseYaml } from 'yaml';
+import { logger } from '../utils/logger.ts';
+import { parseAmount, parseAmountEU, parseAmountUS } from '../utils/parse.ts';
+
+/**
+ * Transaction fields that can be read from a column
+ */
+type MappedField = 'id' | 'type' | 'status' | 'isin' | 'symbol' | 'assetType' | 'name' | 'shares' | 'price' | 'amount'
+    | 'fee' | 'tax' | 'date' | 'time' | 'currency' | 'comment';
+
+/**
+ * Condition on a column, rows that do not match every filter are skipped
+ */
+interface RowFilter {
+    column: string | number;
+    /** Keep rows with one of these values */
+    equals?: string | string[];
+    /** Skip rows with one of these values */
+    notEquals?: string | string[];
+    /** Keep rows matching this regular expression */
+    matches?: string;
+}
+
+/**
+ * Mapping file of the generic CSV reader, in JSON or YAML
+ */
+export interface GenericCsvMapping {
+    /** Name of the export, used as source of the transactions */
+    name?: string;
+    /** Column delimiter, defaults to "," */
+    delimiter?: string;
+    /** Lines before the header row, e.g. account details printed above the table */
+    skipLines?: number;
+    /** False if the file has no header row, columns are then referenced by their index */
+    headers?: boolean;
+    /** Column of each transaction field, by header name or index */
+    columns: Partial<Record<MappedField, string | number>>;
+    /** Values of the type column and their transaction type, e.g. { "Kauf": "buy" }. Unmapped values are parsed as type names. */
+    types?: Record<string, string>;
+    /** Decimal style of numbers: "eu" for 1.234,56, "us" for 1,234.56, "auto" to detect per value (default) */
+    decimal?: 'eu' | 'us' | 'auto';
+    /** Date format made of yyyy, MM, dd, HH, mm and ss, e.g. "dd.MM.yyyy". Defaults to ISO 8601. A time column is appended with a space. */
+    dateFormat?: string;
+    /** Timezone of dates without offset, also of ISO dates when no dateFormat is set: "local" (default), "UTC", an offset like "+01:00" or a zone name like "Europe/Berlin" */
+    timezone?: string;
+    /** Sign of the amount column: "signed" as booked (default), "unsigned" derived from the type, "inverted" for exports that print debits positive */
+    amountSign?: 'signed' | 'unsigned' | 'inverted';
+    /** Rows to import */
+    filters?: RowFilter[];
+    /** Values of fields that are not in the file, e.g. { "currency": "EUR" } */
+    defaults?: Partial<Record<MappedField, string>>;
+}
+
+/**
+ * GenericCsvReader - Parses any CSV export described by a mapping file
+ *
+ * New broker or bank exports can be imported without writing a reader, and mapping files can be shared.
+ * The mapping needs at least the type and date columns.
+ */
+export class GenericCsvReader extends BaseReader<Record<string, string>> {
+    // Types that take money from the account, their amount is negative
+    static OUTFLOW_TYPES = [TransactionType.BUY, TransactionType.WITHDRAWAL, TransactionType.FEE, TransactionType.TAX, TransactionType.PAYMENT];
+    static DATE_TOKENS: Record<string, string> = { yyyy: 'year', MM: 'month', dd: 'day', HH: 'hours', mm: 'minutes', ss: 'seconds' };
+    static OFFSET_PATTERN = /^([+-])(\d{2}):?(\d{2})$/;
+    // ISO 8601 date and time without offset, the time may be separated by a space
+    static ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?$/;
+    static DECIMAL_STYLES = ['eu', 'us', 'auto'];
+    static AMOUNT_SIGNS = ['signed', 'unsigned', 'inverted'];
+
+    private readonly mapping: GenericCsvMapping;
+    private readonly types: Record<string, TransactionType> = {};
+
+    constructor(mapping: GenericCsvMapping) {
+        super('generic-csv');
+        if (mapping.columns?.type === undefined || mapping.columns?.date === undefined) {
+            throw new Error('Mapping needs the type and date columns');
+        }
+        if (mapping.timezone !== undefined && !GenericCsvReader.isValidTimezone(mapping.timezone)) {
+            throw new Error(`Unsupported timezone in mapping: ${mapping.timezone}`);
+        }
+        if (mapping.decimal !== undefined && !GenericCsvReader.DECIMAL_STYLES.includes(mapping.decimal)) {
+            throw new Error(`Invalid decimal in mapping: ${mapping.decimal}, expected one of ${GenericCsvReader.DECIMAL_STYLES.join(', ')}`);
+        }
+        if (mapping.amountSign !== undefined && !GenericCsvReader.AMOUNT_SIGNS.includes(mapping.amountSign)) {
+            throw new Error(`Invalid amountSign in mapping: ${mapping.amountSign}, expected one of ${GenericCsvReader.AMOUNT_SIGNS.join(', ')}`);
+        }
+        for (const [value, typeName] of Object.entries(mapping.types || {})) {
+            const type = parseTransactionType(String(typeName));
+            if (!type) {
+                throw new Error(`Invalid transaction type in mapping: types.${value} is ${typeName}`);
+            }
+            this.types[value] = type;
+        }
+        this.mapping = mapping;
+    }
+
+    /**
+     * Create a reader from a mapping file
+     * @param path - JSON or YAML mapping file
+     */
+    static async fromFile(path: string): Promise<GenericCsvReader> {
+        const content = await readFile(path, 'utf-8');
+        return new GenericCsvReader(GenericCsvReader.parseMapping(content, path));
+    }
+
+    static parseMapping(content: string, path: string): GenericCsvMapping {
+        return /\.ya?ml$/i.test(path) ? parseYaml(content) : JSON.parse(content);
+    }
+
+    private static isValidTimezone(timezone: string): boolean {
+        if (timezone === 'local' || timezone.toUpperCase() === 'UTC' || GenericCsvReader.OFFSET_PATTERN.test(timezone)) return true;
+        try {
+            new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    async fetchTransactionRecords(options: ReaderOptions): Promise<Record<string, string>[]> {
+        const inputContent = options.inputContent || (await readFile(options.inputPath!, 'utf-8'));
+
+        const rows: Record<string, string>[] = [];
+        await new Promise<void>((resolve, reject) => {
+            parseString(inputContent, {
+                headers: this.mapping.headers !== false,
+                delimiter: this.mapping.delimiter ?? ',',
+                skipLines: this.mapping.skipLines ?? 0,
+                ignoreEmpty: true,
+                trim: true,
+            })
+                .on('error', (error) => reject(error))
+                // Rows without headers are arrays, their columns are referenced by index
+                .on('data', (row) => rows.push(Array.isArray(row) ? { ...row } : row))
+                .on('end', () => resolve());
+        });
+
+        const filtered = rows.filter((row) => (this.mapping.filters || []).every((filter) => this.matchesFilter(row, filter)));
+        logger.info(`📋 Read ${rows.length} rows from: ${options.inputPath}, ${rows.length - filtered.length} filtered`);
+        return filtered;
+    }
+
+    parseTransaction(record: Record<string, string>): Transaction | null {
+        const typeValue = this.value(record, 'type');
+        const type = (typeValue !== undefined ? this.types[typeValue] : undefined) ?? parseTransactionType(typeValue);
+        if (!type) {
+            logger.error({ record }, `Invalid transaction type: ${typeValue}`);
+            return null;
+        }
+
+        const date = this.parseDate(record);
+        if (!date) {
+            logger.error({ record }, `Invalid date: ${this.value(record, 'date')}`);
+            return null;
+        }
+
+        const shares = this.parseNumber(record, 'shares');
+        const fee = Math.abs(this.parseNumber(record, 'fee') ?? 0);
+        const tax = Math.abs(this.parseNumber(record, 'tax') ?? 0);
+        const amount = this.parseSignedAmount(record, type);
+
+        return {
+            id: this.value(record, 'id'),
+            type,
+            status: this.value(record, 'status'),
+            isin: this.value(record, 'isin'),
+            symbol: this.value(record, 'symbol'),
+            assetType: parseAssetType(this.value(record, 'assetType')),
+            name: this.value(record, 'name'),
+            shares: shares !== undefined ? Math.abs(shares) : undefined,
+            price: this.parseNumber(record, 'price') ?? this.derivePrice(type, amount, fee + tax, shares),
+            amount,
+            fee,
+            tax,
+            date,
+            currency: this.value(record, 'currency'),
+            comment: this.value(record, 'comment'),
+            source: this.mapping.name || this.name,
+        };
+    }
+
+    /**
+     * Value of a mapped column, or its default. Empty cells are undefined.
+     */
+    private value(record: Record<string, string>, field: MappedField): string | undefined {
+        const column = this.mapping.columns[field];
+        const value = column !== undefined ? record[column] : undefined;
+        return value || this.mapping.defaults?.[field] || undefined;
+    }
+
+    private parseNumber(record: Record<string, string>, field: MappedField): number | undefined {
+        const value = this.value(record, field);
+        switch (this.mapping.decimal) {
+            case 'eu':
+                return parseAmountEU(value);
+            case 'us':
+                return parseAmountUS(value);
+            default:
+                return parseAmount(value);
+        }
+    }
+
+    private parseSignedAmount(record: Record<string, string>, type: TransactionType): number | undefined {
+        const amount = this.parseNumber(record, 'amount');
+        if (amount === undefined) return undefined;
+
+        switch (this.mapping.amountSign) {
+            case 'unsigned':
+                return GenericCsvReader.OUTFLOW_TYPES.includes(type) ? -Math.abs(amount) : Math.abs(amount);
+            case 'inverted':
+                return -amount;
+            default:
+                return amount;
+        }
+    }
+
+    /**
+     * Price per share from the booked amount when the export has no price column: costs were added to a buy and taken from a sell
+     */
+    private derivePrice(type: TransactionType, amount: number | undefined, costs: number, shares: number | undefined): number | undefined {
+        if (amount === undefined || !shares || (type !== TransactionType.BUY && type !== TransactionType.SELL)) return undefined;
+
+        const value = Math.abs(amount) + (type === TransactionType.BUY ? -costs : costs);
+        return Math.round(value / Math.abs(shares) * 10000) / 10000;
+    }
+
+    private parseDate(record: Record<string, string>): Date | undefined {
+        const date = this.value(record, 'date');
+        if (!date) return undefined;
+
+        const time = this.value(record, 'time');
+        if (!this.mapping.dateFormat) {
+            // Without a timezone, and for dates with an offset, the standard parsing of Date applies
+            const parts = this.mapping.timezone !== undefined ? this.matchIsoDate(time ? `${date}T${time}` : date) : undefined;
+            if (parts) return this.toInstant(parts, this.mapping.timezone!);
+
+            const parsed = new Date(time ? `${date}T${time}` : date);
+            return isNaN(parsed.getTime()) ? undefined : parsed;
+        }
+
+        const parts = this.matchDateFormat(time ? `${date} ${time}` : date, this.mapping.dateFormat);
+        if (!parts) return undefined;
+        return this.toInstant(parts, this.mapping.timezone ?? 'local');
+    }
+
+    /**
+     * Instant of a wall time in a timezone
+     * @param timezone - "local", "UTC", an offset or a zone name
+     */
+    private toInstant(parts: Record<string, number>, timezone: string): Date {
+        const { year, month, day, hours = 0, minutes = 0, seconds = 0 } = parts;
+        if (timezone === 'local') {
+            return new Date(year, month - 1, day, hours, minutes, seconds);
+        }
+
+        const wallTime = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+        if (timezone.toUpperCase() === 'UTC') {
+            return new Date(wallTime);
+        }
+
+        const offset = timezone.match(GenericCsvReader.OFFSET_PATTERN);
+        if (offset) {
+            const offsetMinutes = (offset[1] === '-' ? -1 : 1) * (+offset[2] * 60 + +offset[3]);
+            return new Date(wallTime - offsetMinutes * 60 * 1000);
+        }
+
+        // The offset of a zone depends on the date, it is looked up again at the estimated instant to get daylight saving right
+        const estimate = wallTime - this.zoneOffset(timezone, wallTime);
+        return new Date(wallTime - this.zoneOffset(timezone, estimate));
+    }
+
+    /**
+     * Offset of a timezone from UTC at an instant, in milliseconds
+     * @param timezone - Zone name, e.g. "Europe/Berlin"
+     */
+    private zoneOffset(timezone: string, instant: number): number {
+        const parts = new Intl.DateTimeFormat('en-US', {
+            timeZone: timezone,
+            hourCycle: 'h23',
+            year: 'numeric',
+            month: 'numeric',
+            day: 'numeric',
+            hour: 'numeric',
+            minute: 'numeric',
+            second: 'numeric',
+        }).formatToParts(new Date(instant));
+        const part = (type: Intl.DateTimeFormatPartTypes) => +parts.find((p) => p.type === type)!.value;
+
+        const wallTime = Date.UTC(part('year'), part('month') - 1, part('day'), part('hour'), part('minute'), part('second'));
+        return wallTime - Math.floor(instant / 1000) * 1000;
+    }
+
+    /**
+     * Match an ISO 8601 date without offset, e.g. "2024-01-15" or "2024-01-15T09:30"
+     */
+    private matchIsoDate(value: string): Record<string, number> | undefined {
+        const match = value.match(GenericCsvReader.ISO_DATE_PATTERN);
+        if (!match) return undefined;
+
+        const [, year, month, day, hours, minutes, seconds] = match;
+        return { year: +year, month: +month, day: +day, hours: +(hours ?? 0), minutes: +(minutes ?? 0), seconds: +(seconds ?? 0) };
+    }
+
+    /**
+     * Match a date against a format like "dd.MM.yyyy HH:mm"
+     * @returns Date parts by name, or undefined if the date does not have the format
+     */
+    private matchDateFormat(value: string, format: string): Record<string, number> | undefined {
+        const names: string[] = [];
+        const pattern = format
+            .replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+            .replace(/yyyy|MM|dd|HH|mm|ss/g, (token) => {
+                names.push(GenericCsvReader.DATE_TOKENS[token]);
+                return token === 'yyyy' ? '(\\d{4})' : '(\\d{1,2})';
+            });
+
+        const match = value.match(new RegExp(`^${pattern}`));
+        if (!match) return undefined;
+        return Object.fromEntries(names.map((name, i) => [name, +match[i + 1]]));
+    }
+
+    private matchesFilter(row: Record<string, string>, filter: RowFilter): boolean {
+        const value = row[filter.column] ?? '';
+
+        if (filter.equals !== undefined && ![filter.equals].flat().includes(value)) return false;
+        if (filter.notEquals !== undefined && [filter.notEquals].flat().includes(value)) return false;
+        if (filter.matches !== undefined && !new RegExp(filter.matches).test(value)) return false;
+        return true;
+    }
+}
@@ -0,0 +1,65 @@
+import { GhostfolioJsonReader } from './ghostfolio-json.ts';
+import { AssetType, TransactionType } from '../transaction.ts';
+
+const EXPORT = {
+    meta: { date: '2024-01-15T10:00:00.000Z', version: '2.30.0' },
+    accounts: [{ id: 'acc-1', name: 'Trade Republic', currency: 'EUR', balance: 0 }],
+    assetProfiles: [
+        { symbol: 'AAPL', dataSource: 'YAHOO', isin: 'US0378331005', name: 'Apple Inc.', currency: 'USD', assetSubClass: 'STOCK' },
+        { symbol: 'BTCUSD', dataSource: 'COINGECKO', isin: null, name: 'Bitcoin', currency: 'USD', assetSubClass: 'CRYPTOCURRENCY' },
+    ],
+    activities: [
+        { id: 'a1', accountId: 'acc-1', type: 'BUY', symbol: 'AAPL', dataSource: 'YAHOO', quantity: 10, unitPrice: 150, fee: 1, currency: 'USD', date: '2023-01-02T00:00:00.000Z', comment: null },
+        { id: 'a2', accountId: 'acc-1', type: 'DIVIDEND', symbol: 'AAPL', dataSource: 'YAHOO', quantity: 10, unitPrice: 0.23, fee: 0, currency: 'USD', date: '2023-05-12T00:00:00.000Z', comment: 'Q2' },
+        { id: 'a3', accountId: null, type: 'BUY', symbol: 'IE00B3RBWM25', dataSource: 'MANUAL', quantity: 2, unitPrice: 100, fee: 0, currency: 'EUR', date: '2023-06-01T00:00:00.000Z' },
+        { id: 'a4', accountId: 'acc-1', type: 'FEE', symbol: 'Account fee', dataSource: 'MANUAL', quantity: 1, unitPrice: 0, fee: 4.99, currency: 'EUR', date: '2023-06-30T00:00:00.000Z' },
+        { id: 'a5', accountId: null, type: 'ITEM', symbol: 'Watch', dataSource: 'MANUAL', quantity: 1, unitPrice: 5000, fee: 0, currency: 'EUR', date: '2023-07-01T00:00:00.000Z' },
+        { id: 'a6', accountId: null, type: 'BUY', symbol: 'BTCUSD', dataSource: 'COINGECKO', quantity: 0.1, unitPrice: 30000, fee: 0, currency: 'USD', date: '2023-07-02T00:00:00.000Z' },
+    ],
+};
+
+describe('GhostfolioJsonReader', () => {
+    const reader = new GhostfolioJsonReader();
+
+    it('should map activities and recover the ISIN from the asset profiles', async () => {
+        const transactions = await reader.readTransactions({ inputContent: JSON.stringify(EXPORT) });
+
+        expect(transactions.map((tx) => tx.id)).toEqual(['a1', 'a2', 'a3', 'a4']);
+        expect(transactions[0]).toEqual(expect.objectContaining({
+            type: TransactionType.BUY,
+            isin: 'US0378331005',
+            symbol: 'AAPL',
+            assetType: AssetType.STOCK,
+            name: 'Apple Inc.',
+            shares: 10,
+            price: 150,
+            amount: -1501,
+            fee: 1,
+            currency: 'USD',
+            date: new Date('2023-01-02T00:00:00.000Z'),
+            comment: 'Trade Republic',
+        }));
+        expect(transactions[1].type).toBe(TransactionType.DIVIDEND);
+        expect(transactions[1].amount).toBe(2.3);
+        expect(transactions[1].comment).toBe('Trade Republic: Q2');
+    });
+
+    it('should use the symbol of manual assets named by their ISIN', async () => {
+        const transactions = await reader.readTransactions({ inputContent: JSON.stringify(EXPORT) });
+
+        expect(transactions[2].isin).toBe('IE00B3RBWM25');
+        expect(transactions[2].symbol).toBeUndefined();
+    });
+
+    it('should book fees as cash outflow', async () => {
+        const transactions = await reader.readTransactions({ inputContent: JSON.stringify(EXPORT) });
+
+        expect(transactions[3].type).toBe(TransactionType.FEE);
+        expect(transactions[3].amount).toBe(-4.99);
+        expect(transactions[3].shares).toBeUndefined();
+    });
+
+    it('should reject documents that are not Ghostfolio exports', async () => {
+        await expect(reader.readTransactions({ inputContent: '{"transactions": []}' })).rejects.toThrow('Not a Ghostfolio export');
+    });
+});
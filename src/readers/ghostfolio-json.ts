@@ -0,0 +1,152 @@
+import { AssetType, TransactionType, type Transaction } from "../transaction.ts";
+import { BaseReader, type ReaderOptions } from './index.ts';
+import { readFile } from 'fs/promises';
+import { logger } from '../utils/logger.ts';
+import { isValidIsin } from '../utils/validate.ts';
+
+/**
+ * Activity of a Ghostfolio export
+ */
+interface GhostfolioActivity {
+    id?: string;
+    accountId?: string | null;
+    /** BUY, SELL, DIVIDEND, FEE, INTEREST, ITEM or LIABILITY */
+    type: string;
+    symbol: string;
+    dataSource: string;
+    quantity: number;
+    unitPrice: number;
+    fee: number;
+    currency?: string;
+    date: string;
+    comment?: string | null;
+}
+
+/**
+ * Asset profile of a Ghostfolio export, only the fields the reader uses
+ */
+interface GhostfolioAssetProfile {
+    symbol: string;
+    dataSource: string;
+    isin?: string | null;
+    name?: string | null;
+    currency?: string;
+    assetSubClass?: string | null;
+}
+
+/**
+ * Ghostfolio export document, only the fields the reader uses
+ */
+interface GhostfolioExport {
+    accounts?: { id: string; name: string }[];
+    activities: GhostfolioActivity[];
+    assetProfiles?: GhostfolioAssetProfile[];
+}
+
+/**
+ * Activity with the asset profile and account it refers to
+ */
+interface GhostfolioRecord {
+    activity: GhostfolioActivity;
+    profile?: GhostfolioAssetProfile;
+    account?: string;
+}
+
+/**
+ * GhostfolioJsonReader - Parses the JSON document of Ghostfolio's "Export"
+ *
+ * Activities only refer to a symbol and its data source, the ISIN is recovered from the asset profiles.
+ * Activities without an ISIN can't be converted to trades and are dropped by the validation.
+ *
+ * @see https://github.com/ghostfolio/ghostfolio/blob/main/test/import/ok/sample.json
+ */
+export class GhostfolioJsonReader extends BaseReader<GhostfolioRecord> {
+    static TYPES: Record<string, TransactionType> = {
+        BUY: TransactionType.BUY,
+        SELL: TransactionType.SELL,
+        DIVIDEND: TransactionType.DIVIDEND,
+        INTEREST: TransactionType.INTEREST,
+        FEE: TransactionType.FEE,
+    };
+    static ASSET_TYPES: Record<string, AssetType> = {
+        STOCK: AssetType.STOCK,
+        ETF: AssetType.ETF,
+        BOND: AssetType.BOND,
+        CASH: AssetType.CASH,
+    };
+
+    constructor() {
+        super('ghostfolio-json');
+    }
+
+    async fetchTransactionRecords(options: ReaderOptions): Promise<GhostfolioRecord[]> {
+        const inputContent = options.inputContent || (await readFile(options.inputPath!, 'utf-8'));
+        const data = JSON.parse(inputContent) as GhostfolioExport;
+        if (!Array.isArray(data.activities)) {
+            throw new Error('Not a Ghostfolio export, activities are missing');
+        }
+
+        const profiles = new Map((data.assetProfiles || []).map((profile) => [this.profileKey(profile), profile]));
+        const accounts = new Map((data.accounts || []).map((account) => [account.id, account.name]));
+
+        logger.info(`📋 Read ${data.activities.length} activities from: ${options.inputPath}`);
+        return data.activities.map((activity) => ({
+            activity,
+            profile: profiles.get(this.profileKey(activity)),
+            account: activity.accountId ? accounts.get(activity.accountId) : undefined,
+        }));
+    }
+
+    parseTransaction(record: GhostfolioRecord): Transaction | null {
+        const { activity, profile } = record;
+        const type = GhostfolioJsonReader.TYPES[activity.type];
+        if (!type) {
+            // ITEM and LIABILITY are valuables and debts, they have no transaction equivalent
+            logger.warn({ activity }, `Unhandled activity type: ${activity.type}`);
+            return null;
+        }
+
+        const fee = Math.abs(activity.fee || 0);
+        const value = Math.abs(activity.quantity * activity.unitPrice);
+        const isCashActivity = type === TransactionType.FEE || type === TransactionType.INTEREST;
+
+        return {
+            id: activity.id,
+            type,
+            isin: this.findIsin(activity, profile),
+            symbol: activity.dataSource === 'MANUAL' ? undefined : activity.symbol,
+            assetType: profile?.assetSubClass ? GhostfolioJsonReader.ASSET_TYPES[profile.assetSubClass] : undefined,
+            name: profile?.name || undefined,
+            shares: isCashActivity ? undefined : activity.quantity,
+            price: isCashActivity ? undefined : activity.unitPrice,
+            amount: this.toAmount(type, value, fee),
+            fee,
+            tax: 0,
+            date: new Date(activity.date),
+            currency: activity.currency || profile?.currency,
+            comment: [record.account, activity.comment].filter(Boolean).join(': ') || undefined,
+            source: this.name,
+        };
+    }
+
+    /**
+     * ISIN of the asset profile, or the symbol itself for manual assets that are named by their ISIN
+     */
+    private findIsin(activity: GhostfolioActivity, profile?: GhostfolioAssetProfile): string | undefined {
+        if (isValidIsin(profile?.isin)) return profile.isin;
+        if (isValidIsin(activity.symbol)) return activity.symbol;
+        return undefined;
+    }
+
+    /**
+     * Effect on the cash balance: the fee is added to buys and deducted from income
+     */
+    private toAmount(type: TransactionType, value: number, fee: number): number {
+        const amount = type === TransactionType.BUY || type === TransactionType.FEE ? -(value + fee) : value - fee;
+        return Math.round(amount * 100) / 100;
+    }
+
+    private profileKey(asset: { symbol: string; dataSource: string }): string {
+        return `${asset.dataSource}:${asset.symbol}`;
+    }
+}
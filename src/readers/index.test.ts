@@ -0,0 +1,113 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { BaseReader, type ReaderOptions } from './index.ts';
+import { TransactionType, type Transaction } from '../transaction.ts';
+
+interface PageRecord {
+    id: string;
+    amount: number;
+}
+
+const PAGES: { items: PageRecord[]; cursor?: string }[] = [
+    { items: [{ id: 'tx-1', amount: 10 }, { id: 'tx-2', amount: 20 }], cursor: 'page-2' },
+    { items: [{ id: 'tx-3', amount: 30 }], cursor: 'page-3' },
+    { items: [{ id: 'tx-4', amount: 40 }] },
+];
+
+/**
+ * Reads the pages above in batches like the Trade Republic timeline, the last page has no cursor
+ */
+class PagedReader extends BaseReader<PageRecord> {
+    /** Cursors the fetches started from */
+    starts: (string | undefined)[] = [];
+    /** Fail after reporting the page at this index */
+    failAfter?: number;
+
+    constructor() {
+        super('paged');
+    }
+
+    async fetchTransactionRecords(options: ReaderOptions<PageRecord>): Promise<PageRecord[]> {
+        const records = [...(options.resume?.records || [])];
+        const cursor = options.resume?.cursor;
+        this.starts.push(cursor);
+
+        const first = cursor ? PAGES.findIndex((page) => page.cursor === cursor) + 1 : 0;
+        for (let index = first; index < PAGES.length; index++) {
+            const page = PAGES[index];
+            records.push(...page.items);
+            await options.onProgress?.(page.items, page.cursor);
+            if (index === this.failAfter) {
+                throw new Error('Connection lost');
+            }
+        }
+        return records;
+    }
+
+    parseTransaction(record: PageRecord): Transaction {
+        return { id: record.id, type: TransactionType.DEPOSIT, amount: record.amount, currency: 'EUR', date: new Date('2024-01-01') };
+    }
+}
+
+describe('BaseReader', () => {
+    let recordsDir: string;
+
+    beforeEach(() => {
+        recordsDir = mkdtempSync(join(tmpdir(), 'records-'));
+    });
+
+    afterEach(() => {
+        rmSync(recordsDir, { recursive: true, force: true });
+    });
+
+    it('should resume a fetch that failed midway from the last saved page', async () => {
+        const reader = new PagedReader();
+        reader.failAfter = 0;
+
+        await expect(reader.readTransactions({ resumable: true, recordsDir })).rejects.toThrow('Connection lost');
+
+        reader.failAfter = undefined;
+        const transactions = await reader.readTransactions({ resumable: true, recordsDir });
+
+        expect(reader.starts).toEqual([undefined, 'page-2']);
+        expect(transactions.map((tx) => tx.id)).toEqual(['tx-1', 'tx-2', 'tx-3', 'tx-4']);
+    });
+
+    it('should not duplicate records when the fetch failed after its last page', async () => {
+        const reader = new PagedReader();
+        reader.failAfter = PAGES.length - 1;
+
+        await expect(reader.readTransactions({ resumable: true, recordsDir })).rejects.toThrow('Connection lost');
+
+        reader.failAfter = undefined;
+        const transactions = await reader.readTransactions({ resumable: true, recordsDir });
+
+        expect(reader.starts).toEqual([undefined, undefined]);
+        expect(transactions.map((tx) => tx.id)).toEqual(['tx-1', 'tx-2', 'tx-3', 'tx-4']);
+    });
+
+    it('should start over once a resumable fetch completed', async () => {
+        const reader = new PagedReader();
+
+        await reader.readTransactions({ resumable: true, recordsDir });
+        const transactions = await reader.readTransactions({ resumable: true, recordsDir });
+
+        expect(reader.starts).toEqual([undefined, undefined]);
+        expect(transactions).toHaveLength(4);
+    });
+
+    it('should store resumed records only once in the records cache', async () => {
+        const reader = new PagedReader();
+        reader.failAfter = PAGES.length - 1;
+
+        await expect(reader.readTransactions({ cacheRecords: true, recordsDir })).rejects.toThrow('Connection lost');
+
+        reader.failAfter = undefined;
+        await reader.readTransactions({ cacheRecords: true, recordsDir });
+        const cached = await reader.readTransactions({ cacheRecords: true, recordsDir });
+
+        expect(reader.starts).toEqual([undefined, undefined]);
+        expect(cached.map((tx) => tx.id)).toEqual(['tx-1', 'tx-2', 'tx-3', 'tx-4']);
+    });
+});
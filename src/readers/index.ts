@@ -4,13 +4,34 @@ import { logger } from "../utils/logger.ts";
 import { join } from "path";
 import { mkdirSync } from "fs";
 
-export interface ReaderOptions {
+export interface ReaderOptions<T = any> {
+    /** Keep the fetched records on disk and read them from there next time */
     cacheRecords?: boolean;
+    /** Keep the progress of readers that fetch in batches on disk, so an interrupted fetch continues where it stopped */
+    resumable?: boolean;
+    /** Folder of the records cache and progress state, defaults to "records" in the working directory */
+    recordsDir?: string;
     inputPath?: string;
     inputContent?: string;
+    /** Progress of a previous run that did not finish, only set when `cacheRecords` or `resumable` is enabled */
+    resume?: FetchProgress<T>;
+    /** Called by readers that fetch in batches, so the fetched records survive a crash */
+    onProgress?: (records: T[], cursor?: string) => Promise<void>;
     [key: string]: unknown;
 }
 
+export interface FetchProgress<T> {
+    /** Records fetched so far */
+    records: T[];
+    /** Reader specific position to continue from */
+    cursor?: string;
+}
+
+interface ProgressState {
+    cursor?: string;
+    complete: boolean;
+}
+
 interface RecordsCache<T> {
     add(data: T | T[]): Promise<void>;
     findOne(matchFn: (data: T) => boolean): Promise<T | undefined>;
@@ -34,32 +55,116 @@ export abstract class BaseReader<T = any> {
     async readTransactions(options: ReaderOptions = {}): Promise<Transaction[]> {
         let records: T[] = [];
         let recordsCache: RecordsCache<T> | undefined;
-        if (options.cacheRecords) {
-            const recordsDir = join(process.cwd(), 'records');
+        let progressCache: RecordsCache<ProgressState> | undefined;
+        let progress: ProgressState | undefined;
+        if (options.cacheRecords || options.resumable) {
+            const recordsDir = options.recordsDir ?? join(process.cwd(), 'records');
             mkdirSync(recordsDir, { recursive: true });
 
             const cacheDB = jsonlDir(recordsDir);
             recordsCache = cacheDB.file(this.name) as unknown as RecordsCache<T>;
+            progressCache = cacheDB.file(`${this.name}-progress`) as unknown as RecordsCache<ProgressState>;
+            progress = await progressCache.findOne(() => true);
 
-            if (recordsCache && await recordsCache.count() > 0) {
+            if (!options.cacheRecords && (!progress || progress.complete)) {
+                // Without cacheRecords, only the records of an interrupted fetch are of use
+                await recordsCache.delete(() => true);
+                await progressCache.delete(() => true);
+                progress = undefined;
+            } else if (await recordsCache.count() > 0) {
                 logger.info(`Found ${await recordsCache.count()} cached transaction records`);
                 records = await recordsCache.find(() => true);
             }
         }
 
-        if (records.length === 0) {
+        // Caches without progress state were written in one go and are complete
+        const isIncomplete = progress !== undefined && !progress.complete;
+        if (records.length === 0 || isIncomplete) {
+            let persisted = 0;
+            // A fetch that was interrupted after its last page starts over, records it returns again are stored once
+            const stored = new Set<string>();
+            const isNew = (record: T) => {
+                const key = this.recordId(record);
+                if (key === undefined) return true;
+                if (stored.has(key)) return false;
+                stored.add(key);
+                return true;
+            };
+
+            if (isIncomplete) {
+                logger.info(`⏯️  Resuming interrupted fetch with ${records.length} cached transaction records`);
+                options = { ...options, resume: { records, cursor: progress!.cursor } };
+                records.forEach(isNew);
+                persisted = records.length;
+            }
+
+            const saveProgress = async (state: ProgressState) => {
+                await progressCache?.delete(() => true);
+                await progressCache?.add(state);
+            };
+
+            if (recordsCache) {
+                options = {
+                    ...options,
+                    onProgress: async (batch: T[], cursor?: string) => {
+                        await recordsCache!.add(batch.filter(isNew));
+                        await saveProgress({ cursor, complete: false });
+                        persisted += batch.length;
+                    },
+                };
+                await saveProgress({ cursor: progress?.cursor, complete: false });
+            }
+
             logger.info(`🔎 Fetching transaction records from ${this.name}...`);
-            records = await this.fetchTransactionRecords(options);
+            const fetched = await this.fetchTransactionRecords(options);
+            // Readers return resumed and reported records first, only the rest still needs to be stored
+            const rest = fetched.slice(persisted).filter(isNew);
+            records = isIncomplete ? this.uniqueRecords(fetched) : fetched;
             logger.info(`📋 Found ${records.length} total transaction records`);
 
-            if (options.cacheRecords && recordsCache) {
-                await recordsCache.add(records);
+            if (recordsCache && options.cacheRecords) {
+                await recordsCache.add(rest);
+                await saveProgress({ complete: true });
                 logger.info(`💾 Cached ${records.length} transaction records`);
+            } else if (recordsCache) {
+                // The fetch is complete, the progress is not needed anymore
+                await recordsCache.delete(() => true);
+                await progressCache!.delete(() => true);
             }
+        } else {
+            records = this.filterCachedRecords(records, options);
         }
 
         const transactions = records.map((record) => this.parseTransaction(record)).filter(validateTransaction);
         logger.info(`✅ Successfully parsed ${transactions.length} transactions`);
         return transactions;
     }
+
+    /**
+     * Records of a complete cache that the fetch would have returned with these options,
+     * readers with options that limit the fetch, like a start date, apply them here too
+     */
+    protected filterCachedRecords(records: T[], options: ReaderOptions): T[] {
+        return records;
+    }
+
+    /**
+     * Identity of a record, to store records that a resumed fetch returns again only once.
+     * Records without an id are never treated as duplicates.
+     */
+    protected recordId(record: T): string | undefined {
+        const id = (record as { id?: unknown } | null)?.id;
+        return typeof id === 'string' || typeof id === 'number' ? String(id) : undefined;
+    }
+
+    private uniqueRecords(records: T[]): T[] {
+        const seen = new Set<string>();
+        return records.filter((record) => {
+            const key = this.recordId(record);
+            if (key === undefined) return true;
+            if (seen.has(key)) return false;
+            seen.add(key);
+            return true;
+        });
+    }
 }
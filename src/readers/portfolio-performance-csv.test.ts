@@ -0,0 +1,102 @@
+import { PortfolioPerformanceCsvReader } from './portfolio-performance-csv.ts';
+import { PortfolioPerformanceFormatter } from '../formatters/portfolio-performance.ts';
+import { MarketDataService } from '../services/market-data.ts';
+import { TransactionType } from '../transaction.ts';
+
+describe('PortfolioPerformanceCsvReader', () => {
+    const reader = new PortfolioPerformanceCsvReader();
+
+    it('should parse an English export', async () => {
+        const inputContent = `Date;Type;Value;Transaction Currency;Gross Amount;Currency Gross Amount;Exchange Rate;Fees;Taxes;Shares;ISIN;WKN;Ticker Symbol;Security Name;Note
+2023-01-02T09:30;Buy;1,501.00;EUR;;;;1.00;;10;US0378331005;865985;AAPL;Apple Inc.;
+2023-05-12;Dividend;1.56;EUR;2.30;USD;0.8696;;0.44;10;US0378331005;865985;AAPL;Apple Inc.;Quarterly
+2023-06-01;Deposit;1,000.00;EUR;;;;;;;;;;;
+2023-06-30;Removal;250.00;EUR;;;;;;;;;;;`;
+
+        const transactions = await reader.readTransactions({ inputContent });
+
+        expect(transactions.map((tx) => [tx.type, tx.amount])).toEqual([
+            [TransactionType.BUY, -1501],
+            [TransactionType.DIVIDEND, 1.56],
+            [TransactionType.DEPOSIT, 1000],
+            [TransactionType.WITHDRAWAL, -250],
+        ]);
+        expect(transactions[0]).toEqual(expect.objectContaining({
+            isin: 'US0378331005',
+            symbol: 'AAPL',
+            name: 'Apple Inc.',
+            shares: 10,
+            price: 150,
+            fee: 1,
+            tax: 0,
+            date: new Date('2023-01-02T09:30'),
+        }));
+        expect(transactions[1].price).toBe(0.2);
+        expect(transactions[1].tax).toBe(0.44);
+        expect(transactions[1].comment).toBe('Quarterly');
+    });
+
+    it('should parse a German export', async () => {
+        const inputContent = `Datum;Typ;Wert;Buchungswährung;Gebühren;Steuern;Stück;ISIN;Wertpapiername;Notiz
+02.01.2023 09:30;Kauf;1.501,00;EUR;1,00;;10;US0378331005;Apple Inc.;
+03.02.2023;Verkauf;747,50;EUR;1,00;1,50;5;US0378331005;Apple Inc.;
+01.06.2023;Einlage;1.000,00;EUR;;;;;;
+30.06.2023;Zinsen;3,21;EUR;;;;;;
+15.07.2023;Einlieferung;0,00;EUR;;;2;IE00B3RBWM25;Vanguard FTSE All-World;`;
+
+        const transactions = await reader.readTransactions({ inputContent });
+
+        expect(transactions.map((tx) => tx.type)).toEqual([
+            TransactionType.BUY,
+            TransactionType.SELL,
+            TransactionType.DEPOSIT,
+            TransactionType.INTEREST,
+            TransactionType.TRANSFER_IN,
+        ]);
+        expect(transactions[0].date).toEqual(new Date(2023, 0, 2, 9, 30));
+        expect(transactions[0].price).toBe(150);
+        expect(transactions[1].amount).toBe(747.5);
+        expect(transactions[1].price).toBe(150);
+        expect(transactions[4].amount).toBeUndefined();
+        expect(transactions[4].shares).toBe(2);
+    });
+
+    it('should read numbers in the format of the header language', async () => {
+        const english = `Date;Type;Value;Transaction Currency;Shares;ISIN
+2023-01-02;Buy;1,500.00;EUR;1,000;US0378331005`;
+        const german = `Datum;Typ;Wert;Buchungswährung;Stück;ISIN
+02.01.2023;Kauf;1.500;EUR;1.500;US0378331005`;
+
+        const [englishTx] = await reader.readTransactions({ inputContent: english });
+        const [germanTx] = await reader.readTransactions({ inputContent: german });
+
+        expect(englishTx).toEqual(expect.objectContaining({ shares: 1000, amount: -1500, price: 1.5 }));
+        expect(germanTx).toEqual(expect.objectContaining({ shares: 1500, amount: -1500, price: 1 }));
+    });
+
+    it('should read back the CSV of PortfolioPerformanceFormatter', async () => {
+        const formatter = new PortfolioPerformanceFormatter({} as MarketDataService);
+        const inputContent = await formatter.formatTransactions([
+            { type: TransactionType.BUY, isin: 'US0378331005', name: 'Apple Inc.', shares: 10, price: 150, fee: 1, amount: -1501, currency: 'EUR', date: new Date('2023-03-01T00:00:00Z') },
+            { type: TransactionType.SELL, isin: 'US0378331005', name: 'Apple Inc.', shares: 5, price: 160, fee: 1, tax: 2, currency: 'EUR', date: new Date('2023-03-02T00:00:00Z') },
+            { type: TransactionType.DEPOSIT, amount: 500, currency: 'EUR', date: new Date('2023-03-03T00:00:00Z') },
+        ]);
+
+        const transactions = await reader.readTransactions({ inputContent });
+
+        expect(transactions.map(({ type, shares, price, amount, fee, tax, date }) => ({ type, shares, price, amount, fee, tax, date }))).toEqual([
+            { type: TransactionType.BUY, shares: 10, price: 150, amount: -1501, fee: 1, tax: 0, date: new Date('2023-03-01') },
+            { type: TransactionType.SELL, shares: 5, price: 160, amount: 797, fee: 1, tax: 2, date: new Date('2023-03-02') },
+            { type: TransactionType.DEPOSIT, shares: undefined, price: undefined, amount: 500, fee: 0, tax: 0, date: new Date('2023-03-03') },
+        ]);
+    });
+
+    it('should skip unknown types', async () => {
+        const inputContent = `Date;Type;Value
+2023-01-02;Split;0`;
+
+        const transactions = await reader.readTransactions({ inputContent });
+
+        expect(transactions).toEqual([]);
+    });
+});
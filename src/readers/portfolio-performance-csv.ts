@@ -0,0 +1,167 @@
+import { TransactionType, type Transaction } from "../transaction.ts";
+import { BaseReader, type ReaderOptions } from './index.ts';
+import { parseString } from '@fast-csv/parse';
+import { readFile } from 'fs/promises';
+import { logger } from '../utils/logger.ts';
+import { parseAmountEU, parseAmountUS } from '../utils/parse.ts';
+
+/**
+ * Row of a Portfolio Performance export, keyed by the columns below whatever the language of the headers
+ */
+type PortfolioPerformanceRecord = Partial<Record<PortfolioPerformanceColumn, string>>;
+
+type PortfolioPerformanceColumn = 'date' | 'type' | 'value' | 'currency' | 'grossAmount' | 'grossCurrency' | 'exchangeRate'
+    | 'fees' | 'taxes' | 'shares' | 'isin' | 'wkn' | 'symbol' | 'name' | 'note';
+
+/**
+ * PortfolioPerformanceCsvReader - Parses the account and portfolio transactions exported by Portfolio Performance
+ *
+ * CSV Format:
+ * - Delimiter: Semicolon (;)
+ * - Headers and types in the language of the app, German and English are supported
+ * - Numbers in the format of the app language, "1.234,56" with German and "1,234.56" with English headers
+ * - Value is the total of the transaction including fees and taxes, always positive
+ *
+ * Also reads the CSV written by PortfolioPerformanceFormatter.
+ */
+export class PortfolioPerformanceCsvReader extends BaseReader<PortfolioPerformanceRecord> {
+    static HEADERS: Record<string, PortfolioPerformanceColumn> = {
+        'Date': 'date', 'Datum': 'date',
+        'Type': 'type', 'Typ': 'type',
+        'Value': 'value', 'Wert': 'value',
+        'Transaction Currency': 'currency', 'Operation currency': 'currency', 'Buchungswährung': 'currency',
+        'Gross Amount': 'grossAmount', 'Bruttobetrag': 'grossAmount',
+        'Currency Gross Amount': 'grossCurrency', 'Währung Bruttobetrag': 'grossCurrency',
+        'Exchange Rate': 'exchangeRate', 'Wechselkurs': 'exchangeRate',
+        'Fees': 'fees', 'Gebühren': 'fees',
+        'Taxes': 'taxes', 'Taxes/Charges': 'taxes', 'Steuern': 'taxes',
+        'Shares': 'shares', 'Stück': 'shares',
+        'ISIN': 'isin',
+        'WKN': 'wkn',
+        'Ticker Symbol': 'symbol', 'Ticker-Symbol': 'symbol',
+        'Security Name': 'name', 'Security name': 'name', 'Wertpapiername': 'name',
+        'Note': 'note', 'Notiz': 'note',
+    };
+
+    static TYPES: Record<string, TransactionType> = {
+        'buy': TransactionType.BUY, 'kauf': TransactionType.BUY,
+        'sell': TransactionType.SELL, 'verkauf': TransactionType.SELL,
+        'dividend': TransactionType.DIVIDEND, 'dividende': TransactionType.DIVIDEND,
+        'interest': TransactionType.INTEREST, 'zinsen': TransactionType.INTEREST,
+        'interest charge': TransactionType.FEE, 'zinsbelastung': TransactionType.FEE,
+        'fees': TransactionType.FEE, 'gebühren': TransactionType.FEE,
+        'fees refund': TransactionType.REFUND, 'gebührenerstattung': TransactionType.REFUND,
+        'taxes': TransactionType.TAX, 'steuern': TransactionType.TAX,
+        'tax refund': TransactionType.REFUND, 'steuerrückerstattung': TransactionType.REFUND,
+        'deposit': TransactionType.DEPOSIT, 'einlage': TransactionType.DEPOSIT,
+        'removal': TransactionType.WITHDRAWAL, 'entnahme': TransactionType.WITHDRAWAL,
+        'transfer (inbound)': TransactionType.TRANSFER, 'umbuchung (eingang)': TransactionType.TRANSFER,
+        'transfer (outbound)': TransactionType.TRANSFER, 'umbuchung (ausgang)': TransactionType.TRANSFER,
+        'delivery (inbound)': TransactionType.TRANSFER_IN, 'einlieferung': TransactionType.TRANSFER_IN,
+        'delivery (outbound)': TransactionType.TRANSFER_OUT, 'auslieferung': TransactionType.TRANSFER_OUT,
+    };
+    // Types that take money from the account, their value is booked negative
+    static OUTFLOW_TYPES = ['buy', 'kauf', 'interest charge', 'zinsbelastung', 'fees', 'gebühren', 'taxes', 'steuern',
+        'removal', 'entnahme', 'transfer (outbound)', 'umbuchung (ausgang)'];
+
+    static DATE_PATTERN_DE = /^(\d{2})\.(\d{2})\.(\d{4})(?: (\d{2}):(\d{2}))?$/;
+    static DATE_HEADER_DE = 'Datum';
+
+    // Numbers can't be told apart on their own, "1.500" is 1500 in German and 1.5 in English
+    private parseNumber: (value?: string) => number | undefined = parseAmountUS;
+
+    constructor() {
+        super('portfolio-performance-csv');
+    }
+
+    async fetchTransactionRecords(options: ReaderOptions): Promise<PortfolioPerformanceRecord[]> {
+        const inputContent = options.inputContent || (await readFile(options.inputPath!, 'utf-8'));
+
+        const records: PortfolioPerformanceRecord[] = [];
+        await new Promise<void>((resolve, reject) => {
+            parseString(inputContent, {
+                // Unknown columns, like the cash account or portfolio name, are dropped
+                headers: (headers) => {
+                    const names = headers.map((header) => header?.replace(/^\uFEFF/, '').trim() ?? '');
+                    this.parseNumber = names.includes(PortfolioPerformanceCsvReader.DATE_HEADER_DE) ? parseAmountEU : parseAmountUS;
+                    return names.map((name) => PortfolioPerformanceCsvReader.HEADERS[name] ?? undefined);
+                },
+                delimiter: ';',
+                ignoreEmpty: true,
+                trim: true,
+            })
+                .on('error', (error) => reject(error))
+                .on('data', (row) => records.push(row))
+                .on('end', () => resolve());
+        });
+
+        logger.info(`📋 Read ${records.length} transactions from: ${options.inputPath}`);
+        return records;
+    }
+
+    parseTransaction(record: PortfolioPerformanceRecord): Transaction | null {
+        const typeName = record.type?.toLowerCase().trim() ?? '';
+        const type = PortfolioPerformanceCsvReader.TYPES[typeName];
+        if (!type) {
+            logger.error({ record }, `Invalid transaction type: ${record.type}`);
+            return null;
+        }
+
+        const date = this.parseDate(record.date);
+        if (!date) {
+            logger.error({ record }, `Invalid date: ${record.date}`);
+            return null;
+        }
+
+        const value = Math.abs(this.parseNumber(record.value) || 0);
+        const fee = Math.abs(this.parseNumber(record.fees) || 0);
+        const tax = Math.abs(this.parseNumber(record.taxes) || 0);
+        const shares = record.shares ? Math.abs(this.parseNumber(record.shares) || 0) : undefined;
+        const amount = PortfolioPerformanceCsvReader.OUTFLOW_TYPES.includes(typeName) ? -value : value;
+
+        return {
+            type,
+            isin: record.isin || undefined,
+            symbol: record.symbol || undefined,
+            name: record.name || undefined,
+            shares,
+            price: this.parsePrice(type, record, value, fee + tax, shares),
+            amount: type === TransactionType.TRANSFER_IN || type === TransactionType.TRANSFER_OUT ? undefined : amount,
+            fee,
+            tax,
+            date,
+            currency: record.currency || 'EUR',
+            comment: record.note || undefined,
+            source: this.name,
+        };
+    }
+
+    /**
+     * Price per share without costs: buys include them in their value, sells and dividends had them deducted
+     */
+    private parsePrice(type: TransactionType, record: PortfolioPerformanceRecord, value: number, costs: number, shares?: number): number | undefined {
+        if (!shares) return undefined;
+
+        const exchangeRate = this.parseNumber(record.exchangeRate);
+        let gross = this.parseNumber(record.grossAmount);
+        if (gross !== undefined && exchangeRate && record.grossCurrency && record.grossCurrency !== record.currency) {
+            gross = gross * exchangeRate;
+        }
+        gross ??= type === TransactionType.BUY ? value - costs : value + costs;
+
+        return Math.round(Math.abs(gross) / shares * 10000) / 10000;
+    }
+
+    private parseDate(value?: string): Date | undefined {
+        if (!value) return undefined;
+
+        const match = value.match(PortfolioPerformanceCsvReader.DATE_PATTERN_DE);
+        if (match) {
+            const [, day, month, year, hours, minutes] = match;
+            return new Date(+year, +month - 1, +day, +(hours ?? 0), +(minutes ?? 0));
+        }
+
+        const date = new Date(value);
+        return isNaN(date.getTime()) ? undefined : date;
+    }
+}
@@ -1,4 +1,4 @@
-import { ScalableCapitalCsvReader } from './scalablecapital-csv.ts';
+import { ScalableCapitalCsvReader, ScalableCapitalTransactionStatus } from './scalablecapital-csv.ts';
 import { TransactionType } from "../transaction.ts";
 
 describe('ScalableCapitalCsvReader', () => {
@@ -48,6 +48,53 @@ describe('ScalableCapitalCsvReader', () => {
             expect(transactions[0].name).toBe('Continental');
         });
 
+        it('should import pending orders when requested', async () => {
+            const inputContent = `date;time;status;reference;description;assetType;type;isin;shares;price;amount;fee;tax;currency
+2026-02-03;08:13:38;Pending;"SCALceP8htS4nAG";"Apple";Security;Buy;US0378331005;2;200,00;-400,00;0,00;0,00;EUR
+2026-02-05;18:44:14;Executed;"SCAL9h5JMARgS6E";"Continental";Security;Buy;DE0005439004;7;70,98;-496,86;0,00;0,00;EUR`;
+
+            const transactions = await reader.readTransactions({ inputContent, statuses: [ScalableCapitalTransactionStatus.PENDING] });
+
+            expect(transactions.length).toBe(1);
+            expect(transactions[0].name).toBe('Apple');
+            expect(transactions[0].status).toBe('Pending');
+        });
+
+        it('should map savings plans, fees, interest and corporate actions', async () => {
+            const inputContent = `date;time;status;reference;description;assetType;type;isin;shares;price;amount;fee;tax;currency
+2026-02-02;09:00:00;Executed;"SCAL1";"Vanguard FTSE All-World";Security;Savings plan;IE00B3RBWM25;0,5;100,00;-50,00;0,00;0,00;EUR
+2026-02-03;09:00:00;Executed;"SCAL2";"PRIME+ Broker";Cash;Fees;;0;0,00;-4,99;0,00;0,00;EUR
+2026-02-04;09:00:00;Executed;"SCAL3";"Interest";Cash;Interest;;0;0,00;12,34;0,00;0,00;EUR
+2026-02-05;09:00:00;Executed;"SCAL4";"Old Corp";Security;Corporate action;DE0005439004;-10;0,00;0,00;0,00;0,00;EUR
+2026-02-05;09:00:00;Executed;"SCAL5";"New Corp";Security;Corporate action;US0378331005;5;0,00;0,00;0,00;0,00;EUR`;
+
+            const transactions = await reader.readTransactions({ inputContent });
+
+            expect(transactions.map((tx) => tx.type)).toEqual([
+                TransactionType.BUY,
+                TransactionType.FEE,
+                TransactionType.INTEREST,
+                TransactionType.TRANSFER_OUT,
+                TransactionType.TRANSFER_IN,
+            ]);
+            expect(transactions[0].comment).toBe('Savings plan');
+            expect(transactions[3].shares).toBe(10);
+            expect(transactions[3].comment).toBe('Corporate action');
+        });
+
+        it('should skip paired security transfers of a broker migration', async () => {
+            const inputContent = `date;time;status;reference;description;assetType;type;isin;shares;price;amount;fee;tax;currency
+2025-12-05;10:00:00;Executed;"SCAL1";"Continental";Security;Security transfer;DE0005439004;-7;0,00;0,00;0,00;0,00;EUR
+2025-12-07;10:00:00;Executed;"SCAL2";"Continental";Security;Security transfer;DE0005439004;7;0,00;0,00;0,00;0,00;EUR
+2026-01-10;10:00:00;Executed;"SCAL3";"Apple";Security;Security transfer;US0378331005;3;0,00;0,00;0,00;0,00;EUR`;
+
+            const transactions = await reader.readTransactions({ inputContent });
+
+            expect(transactions.length).toBe(1);
+            expect(transactions[0].id).toBe('SCAL3');
+            expect(transactions[0].type).toBe(TransactionType.TRANSFER_IN);
+        });
+
         it('should parse European number format correctly', async () => {
             const inputContent = `date;time;status;reference;description;assetType;type;isin;shares;price;amount;fee;tax;currency
 2026-02-05;18:44:14;Executed;"SCAL9h5JMARgS6E";"Continental";Security;Buy;DE0005439004;7;70,98;-496,86;1,50;2,25;EUR`;
@@ -1,4 +1,4 @@
-import { parseAssetType, parseTransactionType, type Transaction } from "../transaction.ts";
+import { parseAssetType, parseTransactionType, TransactionType, type Transaction } from "../transaction.ts";
 import { BaseReader, type ReaderOptions } from './index.ts';
 import { parseString } from '@fast-csv/parse';
 import { readFile } from 'fs/promises';
@@ -22,12 +22,20 @@ interface ScalableCapitalCsvRecord {
     currency: string;
 }
 
-enum ScalableCapitalTransactionStatus {
+export enum ScalableCapitalTransactionStatus {
     EXECUTED = 'Executed',
     PENDING = 'Pending',
     CANCELLED = 'Cancelled',
 }
 
+/**
+ * Options for ScalableCapitalCsvReader
+ */
+export interface ScalableCapitalCsvOptions extends ReaderOptions {
+    /** Statuses to import, defaults to executed transactions only */
+    statuses?: ScalableCapitalTransactionStatus[];
+}
+
 /**
  * ScalableCapitalCsvReader - Parses transaction data from Scalable Capital CSV exports
  *
@@ -38,14 +46,27 @@ enum ScalableCapitalTransactionStatus {
  * - Time format: HH:MM:SS
  * - Status values: Pending, Executed, Cancelled
  *
- * Only transactions with status="Executed" are imported.
+ * Only transactions with status="Executed" are imported, unless other statuses are requested,
+ * e.g. pending orders as a forecast.
  */
 export class ScalableCapitalCsvReader extends BaseReader<ScalableCapitalCsvRecord> {
+    // Types that parseTransactionType does not know
+    static TYPES: Record<string, TransactionType> = {
+        'savings plan': TransactionType.BUY,
+        'fees': TransactionType.FEE,
+        'dividends': TransactionType.DIVIDEND,
+    };
+    // Types of share bookings, the direction is the sign of the shares
+    static TRANSFER_TYPES = ['security transfer', 'corporate action'];
+    static SECURITY_TRANSFER = 'Security transfer';
+    // Outgoing and incoming transfers of a broker migration are booked within a few days
+    static MIGRATION_WINDOW_DAYS = 7;
+
     constructor() {
         super('scalable-capital-csv');
     }
 
-    async fetchTransactionRecords(options: ReaderOptions): Promise<ScalableCapitalCsvRecord[]> {
+    async fetchTransactionRecords(options: ScalableCapitalCsvOptions): Promise<ScalableCapitalCsvRecord[]> {
         const inputContent = options.inputContent || (await readFile(options.inputPath!, 'utf-8'));
 
         const records: ScalableCapitalCsvRecord[] = [];
@@ -61,26 +82,50 @@ export class ScalableCapitalCsvReader extends BaseReader<ScalableCapitalCsvRecor
                 .on('end', () => resolve());
         });
 
-        const executedRecords = records.filter((record) => record.status === ScalableCapitalTransactionStatus.EXECUTED);
-        logger.info(`🛄 Filtered ${records.length - executedRecords.length} non-executed transactions`);
-        return executedRecords;
+        const statuses = options.statuses ?? [ScalableCapitalTransactionStatus.EXECUTED];
+        const filteredRecords = records.filter((record) => statuses.includes(record.status));
+        logger.info(`🛄 Filtered ${records.length - filteredRecords.length} transactions that are not ${statuses.join(' or ').toLowerCase()}`);
+
+        const migrated = this.findMigrationTransfers(filteredRecords);
+        if (migrated.size > 0) {
+            logger.info(`🔁 Skipped ${migrated.size} security transfers of a broker migration`);
+        }
+        return filteredRecords.filter((record) => !migrated.has(record));
     }
 
-    parseTransaction(record: ScalableCapitalCsvRecord): Transaction | null {
-        const date = new Date(`${record.date}T${record.time}`);
+    /**
+     * Find the security transfers of a broker migration: every outgoing transfer that has an incoming transfer
+     * of the same shares shortly after, so the holdings did not change.
+     */
+    findMigrationTransfers(records: ScalableCapitalCsvRecord[]): Set<ScalableCapitalCsvRecord> {
+        const transfers = records.filter((record) => record.type === ScalableCapitalCsvReader.SECURITY_TRANSFER);
+        const window = ScalableCapitalCsvReader.MIGRATION_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+        const paired = new Set<ScalableCapitalCsvRecord>();
 
-        const isMigrationDate = record.date === '2025-12-05' || record.date === '2025-12-06' || record.date === '2025-12-07';
-        if (record.type === 'Security transfer' && isMigrationDate) {
-            return null;
+        for (const outgoing of transfers.filter((record) => this.parseShares(record) < 0)) {
+            const incoming = transfers.find((record) => !paired.has(record)
+                && record.isin === outgoing.isin
+                && this.parseShares(record) === -this.parseShares(outgoing)
+                && Math.abs(Date.parse(record.date) - Date.parse(outgoing.date)) <= window);
+            if (incoming) {
+                paired.add(outgoing);
+                paired.add(incoming);
+            }
         }
+        return paired;
+    }
 
-        const type = parseTransactionType(record.type);
+    parseTransaction(record: ScalableCapitalCsvRecord): Transaction | null {
+        const date = new Date(`${record.date}T${record.time}`);
+
+        const type = this.parseType(record);
         if (!type) {
             logger.error({ record }, `Invalid transaction type: ${record.type}`);
             return null;
         }
 
         const assetType = parseAssetType(record.assetType);
+        const shares = this.parseShares(record);
 
         return {
             id: record.reference,
@@ -90,13 +135,33 @@ export class ScalableCapitalCsvReader extends BaseReader<ScalableCapitalCsvRecor
             assetType,
             isin: record.isin,
             name: record.description,
-            shares: parseAmountEU(record.shares) || 0,
+            shares: Math.abs(shares),
             price: parseAmountEU(record.price) || 0,
             amount: parseAmountEU(record.amount) || 0,
             fee: parseAmountEU(record.fee) || 0,
             tax: parseAmountEU(record.tax) || 0,
             currency: record.currency,
+            comment: this.parseComment(record),
             source: this.name,
         };
     }
+
+    private parseType(record: ScalableCapitalCsvRecord): TransactionType | undefined {
+        const normalized = record.type.toLowerCase().trim();
+        if (ScalableCapitalCsvReader.TRANSFER_TYPES.includes(normalized)) {
+            return this.parseShares(record) < 0 ? TransactionType.TRANSFER_OUT : TransactionType.TRANSFER_IN;
+        }
+        return ScalableCapitalCsvReader.TYPES[normalized] ?? parseTransactionType(record.type);
+    }
+
+    private parseShares(record: ScalableCapitalCsvRecord): number {
+        return parseAmountEU(record.shares) || 0;
+    }
+
+    /**
+     * Keep the original type where it is more specific than the mapped one, e.g. "Savings plan" or "Corporate action"
+     */
+    private parseComment(record: ScalableCapitalCsvRecord): string | undefined {
+        return parseTransactionType(record.type) ? undefined : record.type;
+    }
 }
@@ -0,0 +1,127 @@
+import { ScalableCapitalPdfReader } from './scalablecapital-pdf.ts';
+import { TransactionType, validateTransaction } from '../transaction.ts';
+
+const BUY_CONFIRMATION = `Baader Bank AG · Weihenstephaner Straße 4 · 85716 Unterschleißheim
+Max Mustermann
+Portfolio: 12345678
+Wertpapierabrechnung: Kauf
+Vorgangs-Nr.: 987654321
+Auftragszeit: 10:07:02:04 Handelsdatum Handelsuhrzeit
+Ausführungsplatz: XETRA 13.08.2021 10:07:02:15
+Nominale ISIN: DE000A0F5UF5 WKN: A0F5UF Ausführungskurs 141,22 EUR
+STK 7 iShares Nasdaq-100 UCITS ETF Handelsplatz: XETRA
+Kurswert EUR 988,54
+Provision EUR 0,99
+Zu Lasten Konto 12345004 Valuta: 17.08.2021 EUR 989,53`;
+
+const SELL_CONFIRMATION = `Wertpapierabrechnung: Verkauf
+Vorgangs-Nr.: 123456789
+Ausführungsplatz: GETTEX 02.03.2022 15:30:00
+Nominale ISIN: US0378331005 WKN: 865985 Ausführungskurs 150,00 EUR
+STK 10 Apple Inc.
+Kurswert EUR 1.500,00
+Kapitalertragsteuer-Bemessungsgrundlage EUR 200,00
+Kapitalertragsteuer EUR -50,00
+Solidaritätszuschlag EUR -2,75
+Zu Gunsten Konto 12345004 Valuta: 04.03.2022 EUR 1.447,25`;
+
+const DIVIDEND_NOTICE = `Dividendengutschrift
+Nominale ISIN: US0378331005 WKN: 865985 Zahltag: 12.05.2022
+STK 10 Apple Inc.
+Bruttobetrag USD 2,30
+Umrechnungskurs EUR/USD 1,1500
+US-Quellensteuer USD -0,35
+Kapitalertragsteuer EUR -0,14
+Zu Gunsten Konto 12345004 Valuta: 13.05.2022 EUR 1,56`;
+
+const ACCOUNT_STATEMENT = `Kontoauszug Nr. 3/2021
+Währung: EUR
+Datum Valuta Buchungstext Betrag
+01.03.2021 01.03.2021 Lastschrift aktiv 1.000,00 +
+13.08.2021 17.08.2021 Kauf iShares Nasdaq-100 UCITS ETF 989,53 -
+31.08.2021 31.08.2021 Überweisung 250,00 -
+30.09.2021 30.09.2021 Entgelt PRIME Broker 2,99 -`;
+
+describe('ScalableCapitalPdfReader', () => {
+    const reader = new ScalableCapitalPdfReader();
+
+    it('should convert a buy confirmation', async () => {
+        const [tx] = await reader.readTransactions({ pages: BUY_CONFIRMATION });
+
+        expect(tx.id).toBe('987654321');
+        expect(tx.type).toBe(TransactionType.BUY);
+        expect(tx.isin).toBe('DE000A0F5UF5');
+        expect(tx.name).toBe('iShares Nasdaq-100 UCITS ETF');
+        expect(tx.shares).toBe(7);
+        expect(tx.price).toBe(141.22);
+        expect(tx.amount).toBe(-989.53);
+        expect(tx.fee).toBe(0.99);
+        expect(tx.tax).toBe(0);
+        expect(tx.date).toEqual(new Date(2021, 7, 13, 10, 7, 2));
+        expect(tx.currency).toBe('EUR');
+        expect(validateTransaction(tx)).toBe(true);
+    });
+
+    it('should itemize the taxes of a sell confirmation', async () => {
+        const [tx] = await reader.readTransactions({ pages: [SELL_CONFIRMATION] });
+
+        expect(tx.type).toBe(TransactionType.SELL);
+        expect(tx.amount).toBe(1447.25);
+        expect(tx.fee).toBe(0);
+        expect(tx.tax).toBe(52.75);
+        expect(tx.capitalGainsTax).toBe(50);
+        expect(tx.solidaritySurcharge).toBe(2.75);
+    });
+
+    it('should keep tax refunds of a sell confirmation as refunds', async () => {
+        const pages = `Wertpapierabrechnung: Verkauf
+Vorgangs-Nr.: 123456790
+Ausführungsplatz: GETTEX 03.03.2022 11:00:00
+Nominale ISIN: US0378331005 WKN: 865985 Ausführungskurs 100,00 EUR
+STK 10 Apple Inc.
+Kurswert EUR 1.000,00
+Provision EUR -0,99
+Kapitalertragsteuer EUR 25,00
+Solidaritätszuschlag EUR 1,37
+Zu Gunsten Konto 12345004 Valuta: 07.03.2022 EUR 1.025,38`;
+
+        const [tx] = await reader.readTransactions({ pages });
+
+        expect(tx.amount).toBe(1025.38);
+        expect(tx.fee).toBe(0.99);
+        expect(tx.tax).toBe(-26.37);
+        expect(tx.capitalGainsTax).toBe(-25);
+        expect(tx.solidaritySurcharge).toBe(-1.37);
+    });
+
+    it('should convert the foreign amounts of a dividend notice', async () => {
+        const [tx] = await reader.readTransactions({ pages: DIVIDEND_NOTICE });
+
+        expect(tx.type).toBe(TransactionType.DIVIDEND);
+        expect(tx.isin).toBe('US0378331005');
+        expect(tx.grossAmount).toBe(2);
+        expect(tx.price).toBe(0.2);
+        expect(tx.withholdingTax).toBe(0.3);
+        expect(tx.capitalGainsTax).toBe(0.14);
+        expect(tx.tax).toBe(0.44);
+        expect(tx.amount).toBe(1.56);
+        expect(tx.date).toEqual(new Date(2022, 4, 13));
+    });
+
+    it('should read the cash bookings of an account statement and skip trades', async () => {
+        const transactions = await reader.readTransactions({ documents: [[ACCOUNT_STATEMENT], [BUY_CONFIRMATION]] });
+
+        expect(transactions.map((tx) => [tx.type, tx.amount])).toEqual([
+            [TransactionType.DEPOSIT, 1000],
+            [TransactionType.WITHDRAWAL, -250],
+            [TransactionType.FEE, -2.99],
+            [TransactionType.BUY, -989.53],
+        ]);
+    });
+
+    it('should ignore other documents', async () => {
+        const transactions = await reader.readTransactions({ pages: 'Depotauszug\nper 31.12.2021' });
+
+        expect(transactions).toEqual([]);
+    });
+});
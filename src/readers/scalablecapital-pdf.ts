@@ -0,0 +1,338 @@
+import { logger } from '../utils/logger.ts';
+import { parseAmountEU } from '../utils/parse.ts';
+import { TransactionType, type Transaction } from "../transaction.ts";
+import { BaseReader, type ReaderOptions } from './index.ts';
+import { NUMBER } from './traderepublic-document.ts';
+import { costs, findValue, isTax, itemizeTaxes, type SettlementItem } from './settlement.ts';
+
+/**
+ * Booking of a Baader Bank document, a Kontoauszug contains several
+ */
+interface BaaderBooking {
+    type: TransactionType;
+    /** Title of the document or booking text of the Kontoauszug, e.g. "Wertpapierabrechnung: Kauf" */
+    title: string;
+    /** Vorgangs-Nr. of confirmations */
+    id?: string;
+    name?: string;
+    isin?: string;
+    shares?: number;
+    /** Price per share, or income per share of dividends, in `currency` */
+    price?: number;
+    /** Income before fees and taxes of dividends and interest */
+    grossAmount?: number;
+    /** Fees and taxes in `currency`, negative when charged */
+    items: SettlementItem[];
+    /** Amount booked on the cash account, negative when paid */
+    amount: number;
+    currency: string;
+    date: Date;
+}
+
+/**
+ * Options for ScalableCapitalPdfReader
+ */
+export interface ScalableCapitalPdfOptions extends ReaderOptions {
+    /** Single page text or array of page texts of one document */
+    pages?: string | string[];
+    /** Page texts of several documents */
+    documents?: string[][];
+}
+
+/**
+ * Reads the PDF documents of Scalable Capital accounts at Baader Bank: trade confirmations (Wertpapierabrechnung),
+ * dividend and interest notices (Dividendengutschrift, Zinsgutschrift) and cash account statements (Kontoauszug).
+ * Older accounts only have these documents, the CSV export does not cover their years.
+ */
+export class ScalableCapitalPdfReader extends BaseReader<BaaderBooking> {
+    // Patterns
+    static TRADE_TITLE_PATTERN = /^Wertpapierabrechnung:? (Kauf|Verkauf)/;
+    static INCOME_TITLE_PATTERN = /^(Dividendengutschrift|Ertragsgutschrift|Ausschüttung|Zinsgutschrift|Kupongutschrift)/;
+    static STATEMENT_TITLE_PATTERN = /^Kontoauszug/;
+    static ISIN_PATTERN = /ISIN:? ([A-Z]{2}[A-Z0-9]{9}\d)/;
+    static SHARES_PATTERN = new RegExp(`^STK (${NUMBER}) (.+?)(?: Handelsplatz:.*)?$`);
+    static PRICE_PATTERN = new RegExp(`Ausführungskurs:? (${NUMBER}) ([A-Z]{3})`);
+    static EXECUTION_PATTERN = /(\d{2})\.(\d{2})\.(\d{4}) (\d{2}):(\d{2}):(\d{2})/;
+    static ID_PATTERN = /Vorgangs-Nr\.:? (\S+)/;
+    static ITEM_PATTERN = new RegExp(`^(.+?):? ([A-Z]{3}) (${NUMBER})$`);
+    static EXCHANGE_RATE_PATTERN = new RegExp(`^Umrechnungskurs:? ([A-Z]{3})/([A-Z]{3}) (${NUMBER})`);
+    static BOOKING_PATTERN = new RegExp(`^Zu (Lasten|Gunsten) Konto \\S+ Valuta:? (\\d{2})\\.(\\d{2})\\.(\\d{4}) ([A-Z]{3}) (${NUMBER})$`);
+    // Kontoauszug row: booking date, value date, booking text and amount, signed or with a trailing sign
+    static STATEMENT_ROW_PATTERN = new RegExp(`^(\\d{2})\\.(\\d{2})\\.(\\d{4}) \\d{2}\\.\\d{2}\\.\\d{4} (.+?) (${NUMBER})(?: ?([+-]))?$`);
+    static STATEMENT_CURRENCY_PATTERN = /Währung:? ([A-Z]{3})/;
+
+    // Settlement items
+    static GROSS_LABELS = ['Kurswert', 'Bruttobetrag'];
+    static FEE_LABELS = ['Provision', 'Börsengebühr', 'Handelsplatzgebühr', 'Transaktionsgebühr', 'Fremde Spesen', 'Fremde Abwicklungsgebühr', 'Maklercourtage'];
+    // Tax base lines like "Kapitalertragsteuer-Bemessungsgrundlage" are not charged
+    static IGNORED_LABEL = 'Bemessungsgrundlage';
+
+    // Booking texts of the Kontoauszug. Trades and income have their own documents and are skipped.
+    static CASH_TYPES: Record<string, TransactionType | null> = {
+        'Lastschrift': TransactionType.DEPOSIT,
+        'Einzahlung': TransactionType.DEPOSIT,
+        'Auszahlung': TransactionType.WITHDRAWAL,
+        'Zinsen': TransactionType.INTEREST,
+        'Habenzinsen': TransactionType.INTEREST,
+        'Entgelt': TransactionType.FEE,
+        'Gebühr': TransactionType.FEE,
+        'Steuer': TransactionType.TAX,
+        'Kauf': null,
+        'Verkauf': null,
+        'Coupons/Dividende': null,
+        'Dividende': null,
+        'Ausschüttung': null,
+    };
+    // Booking texts whose direction is the sign of the amount
+    static TRANSFER_TEXTS = ['Überweisung', 'Umbuchung'];
+
+    constructor() {
+        super('scalable-capital-pdf');
+    }
+
+    async fetchTransactionRecords(options: ScalableCapitalPdfOptions): Promise<BaaderBooking[]> {
+        const documents = options.documents ?? (options.pages ? [options.pages] : []);
+        return documents.flatMap((pages) => this.parse(pages));
+    }
+
+    parseTransaction(record: BaaderBooking): Transaction | null {
+        const taxes = record.items.filter((item) => isTax(item.label));
+        const fees = record.items.filter((item) => !isTax(item.label));
+
+        return {
+            id: record.id,
+            type: record.type,
+            isin: record.isin,
+            name: record.name,
+            shares: record.shares,
+            price: record.price,
+            amount: record.amount,
+            fee: costs(fees),
+            tax: costs(taxes),
+            grossAmount: record.grossAmount,
+            ...itemizeTaxes(taxes),
+            date: record.date,
+            currency: record.currency,
+            comment: record.title,
+            source: this.name,
+        };
+    }
+
+    /**
+     * Parse the text of a Baader Bank document
+     * @param pages - Single page text or array of page texts
+     * @returns Bookings of the document, empty if the document is not supported
+     */
+    parse(pages: string | string[]): BaaderBooking[] {
+        const lines = (Array.isArray(pages) ? pages : [pages])
+            .flatMap((page) => page.split('\n'))
+            .map((line) => line.trim())
+            .filter((line) => line.length > 0);
+
+        const trade = lines.find((line) => ScalableCapitalPdfReader.TRADE_TITLE_PATTERN.test(line));
+        if (trade) {
+            const booking = this.parseTrade(lines, trade);
+            return booking ? [booking] : [];
+        }
+
+        const income = lines.find((line) => ScalableCapitalPdfReader.INCOME_TITLE_PATTERN.test(line));
+        if (income) {
+            const booking = this.parseIncome(lines, income);
+            return booking ? [booking] : [];
+        }
+
+        if (lines.some((line) => ScalableCapitalPdfReader.STATEMENT_TITLE_PATTERN.test(line))) {
+            return this.parseStatement(lines);
+        }
+
+        logger.error('Not a Baader Bank trade confirmation, income notice or account statement');
+        return [];
+    }
+
+    /**
+     * Wertpapierabrechnung: one buy or sell with its fees and taxes
+     */
+    private parseTrade(lines: string[], title: string): BaaderBooking | null {
+        const side = title.match(ScalableCapitalPdfReader.TRADE_TITLE_PATTERN)![1];
+        const position = this.parsePosition(lines);
+        const price = lines.join(' ').match(ScalableCapitalPdfReader.PRICE_PATTERN);
+        const booking = this.parseBooking(lines);
+        if (!position || !price || !booking) {
+            logger.error({ position: !!position, price: !!price, booking: !!booking }, 'Could not parse Baader Bank trade confirmation');
+            return null;
+        }
+
+        const execution = lines.join(' ').match(ScalableCapitalPdfReader.EXECUTION_PATTERN);
+        const date = execution
+            ? new Date(+execution[3], +execution[2] - 1, +execution[1], +execution[4], +execution[5], +execution[6])
+            : booking.valueDate;
+
+        const type = side === 'Verkauf' ? TransactionType.SELL : TransactionType.BUY;
+        return {
+            type,
+            title: `Wertpapierabrechnung: ${side}`,
+            id: this.findId(lines),
+            ...position,
+            price: parseAmountEU(price[1])!,
+            items: this.parseSettlementItems(lines, booking.currency, type),
+            amount: booking.amount,
+            currency: booking.currency,
+            date,
+        };
+    }
+
+    /**
+     * Dividendengutschrift or Zinsgutschrift: gross income, taxes withheld and the booked net amount
+     */
+    private parseIncome(lines: string[], title: string): BaaderBooking | null {
+        const position = this.parsePosition(lines);
+        const booking = this.parseBooking(lines);
+        if (!position || !booking) {
+            logger.error({ position: !!position, booking: !!booking }, 'Could not parse Baader Bank income notice');
+            return null;
+        }
+
+        const type = /^(Zinsgutschrift|Kupongutschrift)/.test(title) ? TransactionType.INTEREST : TransactionType.DIVIDEND;
+        const items = this.parseSettlementItems(lines, booking.currency, type);
+        const gross = this.parseGross(lines, booking.currency);
+
+        return {
+            type,
+            title: title.match(ScalableCapitalPdfReader.INCOME_TITLE_PATTERN)![1],
+            id: this.findId(lines),
+            ...position,
+            price: gross !== undefined && position.shares ? Math.round(gross / position.shares * 10000) / 10000 : undefined,
+            grossAmount: gross,
+            items,
+            amount: booking.amount,
+            currency: booking.currency,
+            date: booking.valueDate,
+        };
+    }
+
+    /**
+     * Kontoauszug: deposits, withdrawals, interest, fees and taxes of the cash account
+     */
+    private parseStatement(lines: string[]): BaaderBooking[] {
+        const currency = findValue(lines, ScalableCapitalPdfReader.STATEMENT_CURRENCY_PATTERN) ?? 'EUR';
+        const bookings: BaaderBooking[] = [];
+
+        for (const line of lines) {
+            const match = line.match(ScalableCapitalPdfReader.STATEMENT_ROW_PATTERN);
+            if (!match) continue;
+
+            const [, day, month, year, text, value, sign] = match;
+            const amount = sign === '-' ? -parseAmountEU(value)! : parseAmountEU(value)!;
+            const type = this.classifyCash(text, amount);
+            if (type === undefined) {
+                logger.warn(`Unknown booking text of Kontoauszug: ${text}`);
+                continue;
+            }
+            if (type === null) {
+                logger.debug(`Skipping ${text}, it is read from its own document`);
+                continue;
+            }
+
+            bookings.push({
+                type,
+                title: text,
+                items: [],
+                amount,
+                currency,
+                date: new Date(+year, +month - 1, +day),
+            });
+        }
+
+        logger.info(`📋 Found ${bookings.length} cash bookings in Kontoauszug`);
+        return bookings;
+    }
+
+    /**
+     * @returns Transaction type, null for bookings of trades and income, undefined for unknown booking texts
+     */
+    private classifyCash(text: string, amount: number): TransactionType | null | undefined {
+        if (ScalableCapitalPdfReader.TRANSFER_TEXTS.some((t) => text.startsWith(t))) {
+            return amount < 0 ? TransactionType.WITHDRAWAL : TransactionType.DEPOSIT;
+        }
+
+        const label = Object.keys(ScalableCapitalPdfReader.CASH_TYPES).find((l) => text.startsWith(l));
+        return label === undefined ? undefined : ScalableCapitalPdfReader.CASH_TYPES[label];
+    }
+
+    /**
+     * Security of the document: ISIN line and "STK 7 iShares Nasdaq-100 UCITS ETF"
+     */
+    private parsePosition(lines: string[]): Pick<BaaderBooking, 'name' | 'isin' | 'shares'> | null {
+        const isin = findValue(lines, ScalableCapitalPdfReader.ISIN_PATTERN);
+        const shares = lines.map((line) => line.match(ScalableCapitalPdfReader.SHARES_PATTERN)).find(Boolean);
+        if (!isin || !shares) return null;
+
+        return { name: shares[2], isin, shares: parseAmountEU(shares[1])! };
+    }
+
+    /**
+     * Amount booked on the cash account: "Zu Lasten Konto 1234567 Valuta: 17.08.2021 EUR 989,53"
+     */
+    private parseBooking(lines: string[]): { amount: number; currency: string; valueDate: Date } | null {
+        for (const line of lines) {
+            const match = line.match(ScalableCapitalPdfReader.BOOKING_PATTERN);
+            if (!match) continue;
+
+            const [, direction, day, month, year, currency, amount] = match;
+            const value = Math.abs(parseAmountEU(amount)!);
+            return { amount: direction === 'Lasten' ? -value : value, currency, valueDate: new Date(+year, +month - 1, +day) };
+        }
+        return null;
+    }
+
+    /**
+     * Fees and taxes, converted to the booking currency. Baader prints charges positive on buys, as they add to the
+     * amount paid, and negative on sells and income. Refunds have the opposite sign and are kept as such.
+     */
+    private parseSettlementItems(lines: string[], currency: string, type: TransactionType): SettlementItem[] {
+        const sign = type === TransactionType.BUY ? -1 : 1;
+        const items: SettlementItem[] = [];
+        for (const line of lines) {
+            const match = line.match(ScalableCapitalPdfReader.ITEM_PATTERN);
+            if (!match) continue;
+
+            const [, label, itemCurrency, amount] = match;
+            const isFee = ScalableCapitalPdfReader.FEE_LABELS.some((fee) => label.startsWith(fee));
+            if ((!isFee && !isTax(label)) || label.includes(ScalableCapitalPdfReader.IGNORED_LABEL)) continue;
+
+            items.push({ label, amount: sign * this.convert(lines, parseAmountEU(amount)!, itemCurrency, currency), currency });
+        }
+        return items;
+    }
+
+    private parseGross(lines: string[], currency: string): number | undefined {
+        for (const line of lines) {
+            const match = line.match(ScalableCapitalPdfReader.ITEM_PATTERN);
+            if (match && ScalableCapitalPdfReader.GROSS_LABELS.some((label) => match[1].startsWith(label))) {
+                return this.convert(lines, parseAmountEU(match[3])!, match[2], currency);
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Convert an amount with the Umrechnungskurs of the document, e.g. "Umrechnungskurs EUR/USD 1,1856"
+     */
+    private convert(lines: string[], amount: number, from: string, to: string): number {
+        if (from === to) return amount;
+
+        for (const line of lines) {
+            const match = line.match(ScalableCapitalPdfReader.EXCHANGE_RATE_PATTERN);
+            if (match && match[1] === to && match[2] === from) {
+                return Math.round(amount / parseAmountEU(match[3])! * 100) / 100;
+            }
+        }
+
+        logger.warn(`Exchange rate ${to}/${from} is missing, amount is not converted`);
+        return amount;
+    }
+
+    private findId(lines: string[]): string | undefined {
+        return findValue(lines, ScalableCapitalPdfReader.ID_PATTERN);
+    }
+}
@@ -0,0 +1,202 @@
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { type Browser } from 'playwright';
+import { ScalableCapitalPwReader, type HistoryTransaction } from './scalablecapital-pw.ts';
+import { SessionStore } from '../services/session.ts';
+import { TransactionType } from '../transaction.ts';
+
+const history = (tx: Partial<HistoryTransaction>): HistoryTransaction => ({
+    id: 'SCAL1',
+    type: 'CASH_TRANSACTION',
+    status: 'SETTLED',
+    description: 'Vanguard FTSE All-World',
+    amount: 0,
+    currency: 'EUR',
+    lastEventDateTime: '2025-03-03T10:15:00.000Z',
+    ...tx,
+});
+
+const LOGIN_URL = 'https://de.scalable.capital/en/secure-login';
+const BROKER_URL = 'https://de.scalable.capital/broker/';
+
+/**
+ * Browser with a single page that behaves like the login of Scalable Capital, the history is empty
+ */
+function fakeBrowser(options: { loggedIn: boolean; code: string }) {
+    const state = { ...options, url: 'about:blank', codeShown: false, codeRejected: false, storageState: undefined as unknown, fills: [] as string[] };
+    const pending = new Promise<never>(() => {});
+
+    const page = {
+        goto: async (url: string) => {
+            state.url = url.startsWith(BROKER_URL) && !state.loggedIn ? LOGIN_URL : url;
+        },
+        url: () => state.url,
+        fill: async (selector: string, value: string) => {
+            state.fills.push(value);
+            if (state.codeShown) state.codeRejected = value !== state.code;
+        },
+        click: async () => {
+            if (!state.codeShown) {
+                state.codeShown = true;
+            } else if (!state.codeRejected) {
+                state.loggedIn = true;
+                state.url = BROKER_URL;
+            }
+        },
+        // Like in a real browser, waiting for a page that is not reached never ends
+        waitForURL: async (pattern: RegExp) => pattern.test(new URL(state.url).pathname) ? undefined : pending,
+        waitForSelector: async (selector: string) => selector.includes('one-time-code') && state.codeShown ? {} : pending,
+        isVisible: async () => state.codeRejected,
+        waitForLoadState: async () => {},
+        waitForTimeout: async () => {},
+        $: async () => null,
+        on: () => {},
+        off: () => {},
+        mouse: { wheel: async () => {} },
+    };
+    const context = {
+        newPage: async () => page,
+        storageState: async () => ({ cookies: [{ name: 'session', value: 'new' }], origins: [] }),
+    };
+    const browser = {
+        newContext: async ({ storageState }: { storageState?: unknown }) => {
+            state.storageState = storageState;
+            return context;
+        },
+        close: async () => {},
+    };
+
+    return { browser: browser as unknown as Browser, state };
+}
+
+describe('ScalableCapitalPwReader', () => {
+    const reader = new ScalableCapitalPwReader();
+
+    describe('parseTransaction', () => {
+        it('should parse a trade with its execution details', () => {
+            const tx = reader.parseTransaction(history({
+                type: 'SECURITY_TRANSACTION',
+                side: 'BUY',
+                isin: 'IE00B3RBWM25',
+                quantity: 5,
+                amount: -501.99,
+                price: 100,
+                fee: 0.99,
+                tax: 1,
+            }));
+
+            expect(tx).toEqual(expect.objectContaining({
+                id: 'SCAL1',
+                type: TransactionType.BUY,
+                isin: 'IE00B3RBWM25',
+                shares: 5,
+                price: 100,
+                amount: -501.99,
+                fee: 0.99,
+                tax: 1,
+                date: new Date('2025-03-03T10:15:00.000Z'),
+            }));
+        });
+
+        it('should derive the price of a savings plan execution without details', () => {
+            const tx = reader.parseTransaction(history({
+                type: 'SECURITY_TRANSACTION',
+                side: 'BUY',
+                securityTransactionType: 'SAVINGS_PLAN',
+                isin: 'IE00B3RBWM25',
+                quantity: 0.5,
+                amount: -50,
+            }));
+
+            expect(tx?.price).toBe(100);
+            expect(tx?.fee).toBe(0);
+            expect(tx?.comment).toBe('Savings plan');
+        });
+
+        it('should map cash transactions', () => {
+            const dividend = reader.parseTransaction(history({ type: 'CASH_TRANSACTION', cashTransactionType: 'DISTRIBUTION', isin: 'IE00B3RBWM25', amount: 12.3 }));
+            const deposit = reader.parseTransaction(history({ type: 'CASH_TRANSACTION', cashTransactionType: 'DEPOSIT', amount: 1000 }));
+            const fee = reader.parseTransaction(history({ type: 'CASH_TRANSACTION', cashTransactionType: 'FEE', amount: -2.99 }));
+
+            expect(dividend?.type).toBe(TransactionType.DIVIDEND);
+            expect(dividend?.amount).toBe(12.3);
+            expect(dividend?.price).toBeUndefined();
+            expect(deposit?.type).toBe(TransactionType.DEPOSIT);
+            expect(fee?.type).toBe(TransactionType.FEE);
+        });
+
+        it('should skip transactions that are not settled', () => {
+            const tx = reader.parseTransaction(history({ type: 'SECURITY_TRANSACTION', side: 'SELL', status: 'CANCELLED', amount: 0 }));
+
+            expect(tx).toBeNull();
+        });
+
+        it('should keep parsing positions of the snapshot mode', () => {
+            const tx = reader.parseTransaction({ assetName: 'Apple', isin: 'US0378331005', currentValue: '1.500,00 €', shares: '10' });
+
+            expect(tx?.type).toBe(TransactionType.BUY);
+            expect(tx?.shares).toBe(10);
+            expect(tx?.price).toBe(150);
+        });
+    });
+
+    describe('login', () => {
+        const STORED = { cookies: [{ name: 'session', value: 'stored' }], origins: [] };
+        let sessionDir: string;
+        let sessionStore: SessionStore;
+
+        beforeEach(() => {
+            sessionDir = mkdtempSync(join(tmpdir(), 'session-'));
+            sessionStore = new SessionStore(join(sessionDir, 'session.json'));
+        });
+
+        afterEach(() => {
+            rmSync(sessionDir, { recursive: true, force: true });
+        });
+
+        it('should reuse a stored session that is still logged in', async () => {
+            const { browser, state } = fakeBrowser({ loggedIn: true, code: '123456' });
+            const prompt = async () => { throw new Error('No prompt expected'); };
+            sessionStore.set(ScalableCapitalPwReader.SESSION_KEY, STORED);
+
+            await new ScalableCapitalPwReader({ prompt, launch: async () => browser }).fetchTransactionRecords({ sessionStore, username: 'user', password: 'secret' });
+
+            expect(state.storageState).toEqual(STORED);
+            expect(state.fills).toEqual([]);
+            expect(sessionStore.get(ScalableCapitalPwReader.SESSION_KEY)).toEqual({ cookies: [{ name: 'session', value: 'new' }], origins: [] });
+        });
+
+        it('should log in again when the stored session expired', async () => {
+            const { browser, state } = fakeBrowser({ loggedIn: false, code: '123456' });
+            sessionStore.set(ScalableCapitalPwReader.SESSION_KEY, STORED);
+
+            await new ScalableCapitalPwReader({ prompt: async () => '123456', launch: async () => browser })
+                .fetchTransactionRecords({ sessionStore, username: 'user', password: 'secret' });
+
+            expect(state.fills).toEqual(['user', 'secret', '123456']);
+            expect(sessionStore.get(ScalableCapitalPwReader.SESSION_KEY)).toEqual({ cookies: [{ name: 'session', value: 'new' }], origins: [] });
+        });
+
+        it('should ask again for a rejected 2FA code', async () => {
+            const { browser, state } = fakeBrowser({ loggedIn: false, code: '123456' });
+            const codes = ['654321', '123456'];
+
+            await new ScalableCapitalPwReader({ prompt: async () => codes.shift()!, launch: async () => browser })
+                .fetchTransactionRecords({ sessionStore, username: 'user', password: 'secret' });
+
+            expect(state.fills).toEqual(['user', 'secret', '654321', '123456']);
+            expect(state.loggedIn).toBe(true);
+        });
+
+        it('should fail without storing a session when the 2FA code is rejected repeatedly', async () => {
+            const { browser } = fakeBrowser({ loggedIn: false, code: '123456' });
+
+            const read = new ScalableCapitalPwReader({ prompt: async () => '000000', launch: async () => browser })
+                .fetchTransactionRecords({ sessionStore, username: 'user', password: 'secret' });
+
+            await expect(read).rejects.toThrow('2FA code was rejected 3 times');
+            expect(sessionStore.get(ScalableCapitalPwReader.SESSION_KEY)).toBeUndefined();
+        });
+    });
+});
@@ -1,11 +1,34 @@
 import { logger } from '../utils/logger.ts';
-import { chromium, type Browser, type Page } from 'playwright';
+import { chromium, type Browser, type BrowserContext, type Page, type Response } from 'playwright';
+import promptly from 'promptly';
 import { TransactionType, type Transaction } from "../transaction.ts";
 import { BaseReader, type ReaderOptions } from './index.ts';
 import { parseAmountEU } from '../utils/parse.ts';
+import { SessionStore } from '../services/session.ts';
 
 const LOGIN_URL = 'https://de.scalable.capital/en/secure-login';
 const BROKER_URL = 'https://de.scalable.capital/broker/';
+const TRANSACTIONS_URL = 'https://de.scalable.capital/broker/transactions';
+const API_URL = 'https://de.scalable.capital/broker/api/data';
+// Pages that are only reached after a successful login
+const LOGGED_IN_URL = /\/(cockpit|broker|auth\/custodian-switch)/;
+const LOGIN_TIMEOUT_MS = 120000;
+
+// Second factor of the login: a code sent by SMS or e-mail, or a push notification to approve in the app
+const CODE_INPUT = 'input[autocomplete="one-time-code"], input[name="code"]';
+const APP_APPROVAL = 'text=/confirm.*in the app|approve.*login|in der App bestätigen/i';
+const CODE_REJECTED = 'text=/invalid|incorrect|wrong|expired|ungültig|falsch|abgelaufen/i';
+const MAX_CODE_ATTEMPTS = 3;
+
+const TRANSACTION_DETAILS_QUERY = `query getTransactionDetails($personId: ID!, $portfolioId: ID!, $transactionId: ID!) {
+  account(id: $personId) {
+    brokerPortfolio(id: $portfolioId) {
+      transactionDetails(id: $transactionId) {
+        ... on BrokerSecurityTransactionDetails { finalisedQuantity averagePrice totalFee totalTax }
+      }
+    }
+  }
+}`;
 
 /**
  * Portfolio position extracted from Scalable Capital
@@ -17,6 +40,72 @@ interface PortfolioPosition {
     shares: string | undefined;
 }
 
+/**
+ * Transaction of the broker history, as loaded by the transactions view of the web app
+ */
+export interface HistoryTransaction {
+    id: string;
+    /** SECURITY_TRANSACTION, CASH_TRANSACTION or NON_TRADE_SECURITY_TRANSACTION */
+    type: string;
+    /** SETTLED, PENDING, CANCELLED or REJECTED */
+    status: string;
+    /** BUY or SELL of security transactions */
+    side?: string;
+    /** SINGLE or SAVINGS_PLAN */
+    securityTransactionType?: string;
+    /** DEPOSIT, WITHDRAWAL, DISTRIBUTION, INTEREST, FEE or TAX */
+    cashTransactionType?: string;
+    /** TRANSFER_IN, TRANSFER_OUT or a corporate action */
+    nonTradeSecurityTransactionType?: string;
+    description: string;
+    isin?: string;
+    quantity?: number;
+    /** Booked amount, negative when paid */
+    amount: number;
+    currency: string;
+    lastEventDateTime: string;
+    /** Execution details, only for security transactions */
+    price?: number;
+    fee?: number;
+    tax?: number;
+}
+
+type ScalableCapitalRecord = PortfolioPosition | HistoryTransaction;
+
+/**
+ * Playwright storage state (cookies and localStorage) of a logged in browser
+ */
+type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+/**
+ * User prompt and browser of the reader, can be overridden for tests
+ */
+export interface ScalableCapitalPwConfig {
+    prompt?: (message: string) => Promise<string>;
+    launch?: (headless?: boolean) => Promise<Browser>;
+}
+
+/**
+ * Page of the history as returned by the GraphQL API
+ */
+interface HistoryPage {
+    cursor: string | null;
+    transactions: HistoryTransaction[];
+}
+
+/**
+ * Result of a GraphQL query of the web app, only history pages are of interest
+ */
+interface HistoryResponse {
+    data?: {
+        account?: {
+            brokerPortfolio?: {
+                moreTransactions?: HistoryPage;
+            };
+        };
+    };
+}
+
 /**
  * Options for ScalableCapitalPwReader
  */
@@ -27,43 +116,85 @@ interface ScalableCapitalPwOptions extends ReaderOptions {
     password?: string;
     /** Run browser in headless mode */
     headless?: boolean;
+    /** Only extract the current positions, each as a BUY dated today, instead of the transaction history */
+    snapshot?: boolean;
+    /** Store of the browser session, so later runs skip the login and its second factor */
+    sessionStore?: SessionStore;
 }
 
 /**
- * ScalableCapitalPwReader - Extracts portfolio data from Scalable Capital using Playwright
+ * ScalableCapitalPwReader - Extracts transactions from Scalable Capital using Playwright
  *
  * Uses browser automation to:
  * 1. Authenticate with Scalable Capital
  * 2. Navigate to broker dashboard
- * 3. Extract portfolio positions (assets, shares, current values)
+ * 3. Scroll through the transactions view and capture the history loaded by the web app,
+ *    or in snapshot mode extract the portfolio positions (assets, shares, current values)
  * 4. Return as Transaction objects
  */
-export class ScalableCapitalPwReader extends BaseReader<PortfolioPosition> {
+export class ScalableCapitalPwReader extends BaseReader<ScalableCapitalRecord> {
+    // Only settled transactions changed the portfolio
+    static SETTLED = 'SETTLED';
+    // Scroll attempts without new transactions before the history is considered complete
+    static MAX_IDLE_SCROLLS = 3;
+
+    static CASH_TYPES: Record<string, TransactionType> = {
+        DEPOSIT: TransactionType.DEPOSIT,
+        WITHDRAWAL: TransactionType.WITHDRAWAL,
+        DISTRIBUTION: TransactionType.DIVIDEND,
+        DIVIDEND: TransactionType.DIVIDEND,
+        INTEREST: TransactionType.INTEREST,
+        FEE: TransactionType.FEE,
+        FEES: TransactionType.FEE,
+        TAX: TransactionType.TAX,
+        TAXES: TransactionType.TAX,
+    };
+    static NON_TRADE_TYPES: Record<string, TransactionType> = {
+        TRANSFER_IN: TransactionType.TRANSFER_IN,
+        SECURITY_TRANSFER_IN: TransactionType.TRANSFER_IN,
+        TRANSFER_OUT: TransactionType.TRANSFER_OUT,
+        SECURITY_TRANSFER_OUT: TransactionType.TRANSFER_OUT,
+        SPLIT: TransactionType.SPLIT,
+        REVERSE_SPLIT: TransactionType.SPLIT,
+        SPIN_OFF: TransactionType.SPINOFF,
+        MERGER: TransactionType.MERGER,
+    };
+
+    static SESSION_KEY = 'scalable-capital';
+
     private browser: Browser | null = null;
+    private context: BrowserContext | null = null;
     private page: Page | null = null;
+    private readonly prompt: (message: string) => Promise<string>;
+    private readonly launch: (headless?: boolean) => Promise<Browser>;
 
-    constructor() {
+    constructor(config: ScalableCapitalPwConfig = {}) {
         super('scalable-capital-pw');
+        this.prompt = config.prompt ?? ((message) => promptly.prompt(message));
+        this.launch = config.launch ?? ((headless) => chromium.launch({ headless, args: ['--no-sandbox'] }));
     }
 
-    async fetchTransactionRecords(options: ScalableCapitalPwOptions): Promise<PortfolioPosition[]> {
+    async fetchTransactionRecords(options: ScalableCapitalPwOptions): Promise<ScalableCapitalRecord[]> {
+        const stored = options.sessionStore?.get<StorageState>(ScalableCapitalPwReader.SESSION_KEY);
         try {
-            await this.launchBrowser(options.headless);
-            await this.authenticate(options.username, options.password);
+            await this.launchBrowser(options.headless, stored);
+            if (!stored || !(await this.restoreSession())) {
+                options.sessionStore?.delete(ScalableCapitalPwReader.SESSION_KEY);
+                await this.authenticate(options.username, options.password, options.headless);
+            }
+            await this.saveSession(options.sessionStore);
             await this.navigateToBroker();
-            return await this.extractPortfolioData();
+            return options.snapshot ? await this.extractPortfolioData() : await this.extractHistory();
         } finally {
             await this.closeBrowser();
         }
     }
 
-    private async launchBrowser(headless?: boolean): Promise<void> {
+    private async launchBrowser(headless?: boolean, storageState?: StorageState): Promise<void> {
         logger.info('🚀 Launching browser...');
-        this.browser = await chromium.launch({
-            headless: headless,
-            args: ['--no-sandbox'],
-        });
-        this.page = await this.browser.newPage();
+        this.browser = await this.launch(headless);
+        this.context = await this.browser.newContext({ storageState });
+        this.page = await this.context.newPage();
         logger.debug('Browser launched successfully');
     }
 
@@ -74,7 +205,31 @@ export class ScalableCapitalPwReader extends BaseReader<PortfolioPosition> {
         }
     }
 
-    private async authenticate(username?: string, password?: string): Promise<void> {
+    /**
+     * Checks whether the stored cookies are still logged in, the broker redirects to the login otherwise
+     */
+    private async restoreSession(): Promise<boolean> {
+        await this.page!.goto(BROKER_URL, { waitUntil: 'networkidle' });
+        if (!LOGGED_IN_URL.test(new URL(this.page!.url()).pathname)) {
+            logger.warn('⚠️  Stored session expired');
+            return false;
+        }
+
+        logger.info('✅ Using stored session');
+        return true;
+    }
+
+    /**
+     * Stores cookies and localStorage, they include the device confirmation of the second factor
+     */
+    private async saveSession(sessionStore?: SessionStore): Promise<void> {
+        if (!sessionStore) return;
+
+        sessionStore.set(ScalableCapitalPwReader.SESSION_KEY, await this.context!.storageState());
+        logger.debug(`Stored session in ${sessionStore.path}`);
+    }
+
+    private async authenticate(username?: string, password?: string, headless?: boolean): Promise<void> {
         logger.info('🔐 Authenticating with Scalable Capital...');
 
         await this.page!.goto(LOGIN_URL, { waitUntil: 'networkidle' });
@@ -84,6 +239,9 @@ export class ScalableCapitalPwReader extends BaseReader<PortfolioPosition> {
             await this.page!.fill('#username', username);
             await this.page!.fill('#password', password);
             await this.page!.click('button[type="submit"]');
+            await this.confirmLogin();
+        } else if (headless) {
+            throw new Error('No valid Scalable Capital session, log in with --sc-username and --sc-password or in a visible browser');
         } else {
             // Interactive login - wait for user to complete
             logger.info('⏳ Please log in manually in the browser...');
@@ -91,9 +249,7 @@ export class ScalableCapitalPwReader extends BaseReader<PortfolioPosition> {
         }
 
         // Wait for successful login (redirect to cockpit or broker)
-        await this.page!.waitForURL(/\/(cockpit|broker|auth\/custodian-switch)/, {
-            timeout: 120000, // 2 minutes for manual login
-        });
+        await this.page!.waitForURL(LOGGED_IN_URL, { timeout: LOGIN_TIMEOUT_MS });
 
         // Handle "Welcome to the new Scalable" page if present
         if (this.page!.url().includes('auth/custodian-switch/successful-migration')) {
@@ -107,6 +263,43 @@ export class ScalableCapitalPwReader extends BaseReader<PortfolioPosition> {
         logger.info('✅ Successfully authenticated!');
     }
 
+    /**
+     * Handles the second factor after submitting the credentials, if the login asks for one
+     */
+    private async confirmLogin(): Promise<void> {
+        const step = await Promise.race([
+            this.page!.waitForURL(LOGGED_IN_URL, { timeout: LOGIN_TIMEOUT_MS }).then(() => 'done' as const),
+            this.page!.waitForSelector(CODE_INPUT, { timeout: LOGIN_TIMEOUT_MS }).then(() => 'code' as const),
+            this.page!.waitForSelector(APP_APPROVAL, { timeout: LOGIN_TIMEOUT_MS }).then(() => 'approval' as const),
+        ].map((promise) => promise.catch(() => undefined)));
+
+        if (step === 'code') {
+            for (let attempt = 1; ; attempt++) {
+                const code = await this.prompt('❓ Enter the 2FA code received by SMS, e-mail or authenticator app: ');
+                await this.page!.fill(CODE_INPUT, code.trim());
+                await this.page!.click('button[type="submit"]');
+                if (!(await this.isCodeRejected())) break;
+
+                if (attempt >= MAX_CODE_ATTEMPTS) {
+                    throw new Error(`2FA code was rejected ${attempt} times, log in again later`);
+                }
+                logger.warn(`❌ 2FA code was rejected, try again (attempt ${attempt}/${MAX_CODE_ATTEMPTS})`);
+            }
+        } else if (step === 'approval') {
+            logger.info('📱 Please approve the login in the Scalable Capital app...');
+        }
+    }
+
+    /**
+     * A rejected code keeps the login page open and shows an error, an accepted one leads to the broker
+     */
+    private async isCodeRejected(): Promise<boolean> {
+        await this.page!.waitForLoadState('networkidle');
+        if (LOGGED_IN_URL.test(new URL(this.page!.url()).pathname)) return false;
+
+        return await this.page!.isVisible(CODE_REJECTED);
+    }
+
     private async navigateToBroker(): Promise<void> {
         logger.info('📊 Navigating to broker dashboard...');
 
@@ -173,6 +366,98 @@ export class ScalableCapitalPwReader extends BaseReader<PortfolioPosition> {
         await this.page!.waitForTimeout(1000);
     }
 
+    /**
+     * Scroll through the transactions view until the whole history is loaded. The web app loads it page by page
+     * from its GraphQL API, the pages are captured from the responses instead of parsing the rendered list.
+     */
+    private async extractHistory(): Promise<HistoryTransaction[]> {
+        logger.info('📋 Extracting transaction history...');
+
+        const transactions = new Map<string, HistoryTransaction>();
+        let variables: { personId?: string; portfolioId?: string } = {};
+        let complete = false;
+
+        const onResponse = async (response: Response) => {
+            if (!response.url().startsWith(API_URL)) return;
+            try {
+                for (const page of this.findHistoryPages(await response.json())) {
+                    page.transactions.forEach((tx) => transactions.set(tx.id, tx));
+                    complete = page.cursor === null;
+                    variables = { ...variables, ...response.request().postDataJSON()?.variables };
+                }
+            } catch {
+                // Not JSON or not a history page
+            }
+        };
+
+        this.page!.on('response', onResponse);
+        try {
+            const portfolioId = this.page!.url().match(/portfolioId=([^&]+)/)?.[1];
+            await this.page!.goto(`${TRANSACTIONS_URL}?portfolioId=${portfolioId || ''}`, { waitUntil: 'networkidle' });
+            await this.closeModals();
+
+            let idle = 0;
+            while (!complete && idle < ScalableCapitalPwReader.MAX_IDLE_SCROLLS) {
+                const count = transactions.size;
+                await this.page!.mouse.wheel(0, 10000);
+                await this.page!.waitForLoadState('networkidle');
+                await this.page!.waitForTimeout(500);
+
+                idle = transactions.size > count ? 0 : idle + 1;
+                logger.debug(`Loaded ${transactions.size} transactions`);
+            }
+        } finally {
+            this.page!.off('response', onResponse);
+        }
+
+        if (!complete) {
+            logger.warn('⚠️  End of the history was not reached, older transactions may be missing');
+        }
+        logger.info(`📦 Found ${transactions.size} transactions`);
+
+        const history = [...transactions.values()];
+        for (const tx of history.filter((tx) => tx.type === 'SECURITY_TRANSACTION' && tx.status === ScalableCapitalPwReader.SETTLED)) {
+            await this.fetchDetails(tx, variables);
+        }
+
+        logger.info(`✅ Successfully extracted ${history.length} transactions`);
+        return history;
+    }
+
+    /**
+     * Find the history pages in a GraphQL response, queries may be batched
+     */
+    private findHistoryPages(body: HistoryResponse | HistoryResponse[] | null): HistoryPage[] {
+        return [body].flat().flatMap((result) => {
+            const page = result?.data?.account?.brokerPortfolio?.moreTransactions;
+            return page?.transactions ? [page] : [];
+        });
+    }
+
+    /**
+     * Add price and costs of a trade, they are only shown in its details
+     */
+    private async fetchDetails(tx: HistoryTransaction, variables: { personId?: string; portfolioId?: string }): Promise<void> {
+        try {
+            const response = await this.page!.request.post(API_URL, {
+                data: {
+                    operationName: 'getTransactionDetails',
+                    variables: { ...variables, transactionId: tx.id },
+                    query: TRANSACTION_DETAILS_QUERY,
+                },
+            });
+            const details = (await response.json())?.data?.account?.brokerPortfolio?.transactionDetails;
+            if (details) {
+                tx.quantity = details.finalisedQuantity ?? tx.quantity;
+                tx.price = details.averagePrice;
+                tx.fee = details.totalFee;
+                tx.tax = details.totalTax;
+            }
+        } catch (error) {
+            logger.debug(`Details of transaction ${tx.id} not available: ${(error as Error).message}`);
+        }
+    }
+
     private async extractPortfolioData(): Promise<PortfolioPosition[]> {
         logger.info('📋 Extracting portfolio data...');
 
@@ -261,7 +546,11 @@ export class ScalableCapitalPwReader extends BaseReader<PortfolioPosition> {
         return positions;
     }
 
-    parseTransaction(record: PortfolioPosition): Transaction | null {
+    parseTransaction(record: ScalableCapitalRecord): Transaction | null {
+        if (!('assetName' in record)) {
+            return this.parseHistoryTransaction(record);
+        }
+
         const shares = this.parseShares(record.shares);
         const currentValue = parseAmountEU(record.currentValue) || 0;
         const price = shares > 0 ? currentValue / shares : 0;
@@ -281,6 +570,59 @@ export class ScalableCapitalPwReader extends BaseReader<PortfolioPosition> {
         };
     }
 
+    private parseHistoryTransaction(record: HistoryTransaction): Transaction | null {
+        if (record.status !== ScalableCapitalPwReader.SETTLED) {
+            logger.debug(`Skipping ${record.status.toLowerCase()} transaction ${record.id}`);
+            return null;
+        }
+
+        const type = this.parseHistoryType(record);
+        if (!type) {
+            logger.error({ record }, `Unknown transaction type: ${record.type}`);
+            return null;
+        }
+
+        const fee = Math.abs(record.fee || 0);
+        const tax = Math.abs(record.tax || 0);
+        const shares = record.quantity !== undefined ? Math.abs(record.quantity) : undefined;
+        let price = record.price;
+        if (price === undefined && shares && (type === TransactionType.BUY || type === TransactionType.SELL)) {
+            // Without details, derive the price from the booked amount: costs were added to a buy and taken from a sell
+            const value = Math.abs(record.amount) + (type === TransactionType.BUY ? -(fee + tax) : fee + tax);
+            price = Math.round(value / shares * 10000) / 10000;
+        }
+
+        return {
+            id: record.id,
+            type,
+            status: record.status,
+            isin: record.isin,
+            name: record.description,
+            shares,
+            price,
+            amount: record.amount,
+            fee,
+            tax,
+            date: new Date(record.lastEventDateTime),
+            currency: record.currency,
+            comment: record.securityTransactionType === 'SAVINGS_PLAN' ? 'Savings plan' : undefined,
+            source: this.name,
+        };
+    }
+
+    private parseHistoryType(record: HistoryTransaction): TransactionType | undefined {
+        switch (record.type) {
+            case 'SECURITY_TRANSACTION':
+                return record.side === 'SELL' ? TransactionType.SELL : record.side === 'BUY' ? TransactionType.BUY : undefined;
+            case 'CASH_TRANSACTION':
+                return ScalableCapitalPwReader.CASH_TYPES[record.cashTransactionType || ''];
+            case 'NON_TRADE_SECURITY_TRANSACTION':
+                return ScalableCapitalPwReader.NON_TRADE_TYPES[record.nonTradeSecurityTransactionType || ''];
+            default:
+                return undefined;
+        }
+    }
+
     private parseShares(sharesText: string | undefined): number {
         if (!sharesText) return 0;
         // Remove currency symbols and commas, then parse
@@ -0,0 +1,70 @@
+/**
+ * Fees and taxes listed in the settlement of German bank documents (Abrechnung), shared by the readers of
+ * Trade Republic and Baader Bank documents.
+ */
+
+/**
+ * Single line of a settlement, e.g. "Fremdkostenzuschlag -1,00 EUR"
+ */
+export interface SettlementItem {
+    label: string;
+    /** Negative when charged, positive when refunded */
+    amount: number;
+    currency: string;
+}
+
+/**
+ * Taxes of a settlement, positive when charged
+ */
+export interface ItemizedTaxes {
+    /** Foreign withholding tax (Quellensteuer) */
+    withholdingTax?: number;
+    /** German capital gains tax (Kapitalertragssteuer) */
+    capitalGainsTax?: number;
+    solidaritySurcharge?: number;
+    churchTax?: number;
+}
+
+export const TAX_LABELS: Record<keyof ItemizedTaxes, string> = {
+    withholdingTax: 'Quellensteuer',
+    capitalGainsTax: 'Kapitalertrag',
+    solidaritySurcharge: 'Solidaritätszuschlag',
+    churchTax: 'Kirchensteuer',
+};
+
+// Taxes that are not itemized, e.g. "Steuerkorrektur"
+export const OTHER_TAX_LABEL = 'Steuer';
+
+/**
+ * First capture group of the first line matching the pattern
+ */
+export function findValue(lines: string[], pattern: RegExp): string | undefined {
+    for (const line of lines) {
+        const match = line.match(pattern);
+        if (match) return match[1];
+    }
+    return undefined;
+}
+
+export function isTax(label: string): boolean {
+    return [...Object.values(TAX_LABELS), OTHER_TAX_LABEL].some((tax) => label.includes(tax));
+}
+
+/**
+ * Sum of charged items as a positive value, refunds reduce it
+ */
+export function costs(items: SettlementItem[]): number {
+    return Math.round(items.reduce((total, item) => total - item.amount, 0) * 100) / 100;
+}
+
+/**
+ * Split the taxes of a settlement by kind, only kinds that are listed are set
+ */
+export function itemizeTaxes(items: SettlementItem[]): ItemizedTaxes {
+    const taxes: ItemizedTaxes = {};
+    for (const [key, label] of Object.entries(TAX_LABELS) as [keyof ItemizedTaxes, string][]) {
+        const matching = items.filter((item) => item.label.includes(label));
+        if (matching.length > 0) taxes[key] = costs(matching);
+    }
+    return taxes;
+}
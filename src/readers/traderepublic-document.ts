@@ -0,0 +1,163 @@
+import { parseAmountEU } from '../utils/parse.ts';
+import { BaseReader, type ReaderOptions } from './index.ts';
+import { type SettlementItem } from './settlement.ts';
+
+// German number like "1.234,56" or "-1,00"
+export const NUMBER = '-?\\d+(?:\\.\\d{3})*(?:,\\d+)?';
+
+/**
+ * Row of the POSITION table, e.g. "10,5 Stk. 82,34 EUR 864,57 EUR" below the security name and ISIN
+ */
+export interface DocumentPosition {
+    name: string;
+    isin?: string;
+    shares?: number;
+    /** Price per share, or income per share for dividend notices */
+    price?: number;
+    priceCurrency?: string;
+    /** BETRAG of the POSITION table */
+    marketValue: number;
+    currency: string;
+}
+
+/**
+ * Options for readers of single Trade Republic documents
+ */
+export interface TradeRepublicDocumentOptions extends ReaderOptions {
+    /** Single page text or array of page texts of one document */
+    pages: string | string[];
+}
+
+/**
+ * Base for readers of Trade Republic documents that describe a single booking (trade confirmations, dividend notices).
+ * They share the same layout: a POSITION table, the ABRECHNUNG section with fees and taxes and the BUCHUNG section.
+ */
+export abstract class TradeRepublicDocumentReader<T> extends BaseReader<T> {
+    // Patterns
+    static ISIN_PATTERN = /ISIN:?\s*([A-Z]{2}[A-Z0-9]{9}\d)/;
+    static POSITION_PATTERN = new RegExp(`^(${NUMBER}) Stk\\. (${NUMBER}) ([A-Z]{3}) (${NUMBER}) ([A-Z]{3})$`);
+    static ITEM_PATTERN = new RegExp(`^(.+?) (${NUMBER}) ([A-Z]{3})$`);
+    static BOOKING_PATTERN = new RegExp(`^\\S+ (\\d{2})\\.(\\d{2})\\.(\\d{4}) (${NUMBER}) ([A-Z]{3})$`);
+    static DATE_PATTERN = /^DATUM\s+(\d{2})\.(\d{2})\.(\d{4})$/;
+
+    // Section headers
+    static HEADER_SETTLEMENT = 'POSITION BETRAG';
+    static HEADER_BOOKING = 'VERRECHNUNGSKONTO VALUTA BETRAG';
+    static TOTAL = 'GESAMT';
+    static SUBTOTAL = 'Zwischensumme';
+
+    async fetchTransactionRecords(options: TradeRepublicDocumentOptions): Promise<T[]> {
+        const parsed = this.parse(options.pages);
+        return parsed ? [parsed] : [];
+    }
+
+    /**
+     * Parse the text of a document
+     * @param pages - Single page text or array of page texts
+     * @returns Parsed document or null if the document is not supported by the reader
+     */
+    abstract parse(pages: string | string[]): T | null;
+
+    protected toLines(pages: string | string[]): string[] {
+        return (Array.isArray(pages) ? pages : [pages])
+            .flatMap((page) => page.split('\n'))
+            .map((line) => line.trim())
+            .filter((line) => line.length > 0);
+    }
+
+    /**
+     * Parse the POSITION table: security name, ISIN and "10,5 Stk. 82,34 EUR 864,57 EUR".
+     * Positions without shares, like cash interest, are a single "Label 1,23 EUR" line.
+     * @param header - Header line of the table, e.g. "POSITION ANZAHL PREIS BETRAG"
+     */
+    protected parsePosition(lines: string[], header: string): DocumentPosition | null {
+        const start = lines.indexOf(header);
+        if (start === -1) return null;
+
+        const nameLines: string[] = [];
+        let isin: string | undefined;
+
+        for (let i = start + 1; i < lines.length; i++) {
+            const line = lines[i];
+            if (line.startsWith(TradeRepublicDocumentReader.TOTAL)) break;
+
+            const isinMatch = line.match(TradeRepublicDocumentReader.ISIN_PATTERN);
+            if (isinMatch) {
+                isin = isinMatch[1];
+                continue;
+            }
+
+            const match = line.match(TradeRepublicDocumentReader.POSITION_PATTERN);
+            if (match) {
+                return {
+                    name: nameLines.join(' '),
+                    isin,
+                    shares: parseAmountEU(match[1])!,
+                    price: parseAmountEU(match[2])!,
+                    priceCurrency: match[3],
+                    marketValue: parseAmountEU(match[4])!,
+                    currency: match[5],
+                };
+            }
+
+            const item = line.match(TradeRepublicDocumentReader.ITEM_PATTERN);
+            if (item && !isin) {
+                return {
+                    name: [...nameLines, item[1]].join(' '),
+                    marketValue: parseAmountEU(item[2])!,
+                    currency: item[3],
+                };
+            }
+
+            if (!isin) nameLines.push(line);
+        }
+
+        return null;
+    }
+
+    /**
+     * Parse the fees and taxes listed in the ABRECHNUNG section
+     */
+    protected parseSettlementItems(lines: string[]): SettlementItem[] {
+        const start = lines.indexOf(TradeRepublicDocumentReader.HEADER_SETTLEMENT);
+        if (start === -1) return [];
+
+        const items: SettlementItem[] = [];
+        for (let i = start + 1; i < lines.length; i++) {
+            const line = lines[i];
+            if (line.startsWith(TradeRepublicDocumentReader.TOTAL)) break;
+            if (line.startsWith(TradeRepublicDocumentReader.SUBTOTAL)) continue;
+
+            const match = line.match(TradeRepublicDocumentReader.ITEM_PATTERN);
+            if (match) {
+                items.push({ label: match[1], amount: parseAmountEU(match[2])!, currency: match[3] });
+            }
+        }
+        return items;
+    }
+
+    /**
+     * Parse the amount booked on the cash account in the BUCHUNG section
+     */
+    protected parseBooking(lines: string[]): { amount: number; currency: string; valueDate: Date } | null {
+        const start = lines.indexOf(TradeRepublicDocumentReader.HEADER_BOOKING);
+        if (start === -1) return null;
+
+        const match = lines[start + 1]?.match(TradeRepublicDocumentReader.BOOKING_PATTERN);
+        if (!match) return null;
+
+        const [, day, month, year, amount, currency] = match;
+        return { amount: parseAmountEU(amount)!, currency, valueDate: new Date(+year, +month - 1, +day) };
+    }
+
+    /**
+     * Date printed in the document header (DATUM)
+     */
+    protected parseDocumentDate(lines: string[]): Date | undefined {
+        for (const line of lines) {
+            const match = line.match(TradeRepublicDocumentReader.DATE_PATTERN);
+            if (match) return new Date(+match[3], +match[2] - 1, +match[1]);
+        }
+        return undefined;
+    }
+}
@@ -0,0 +1,108 @@
+import { TradeRepublicIncomePdfReader } from './traderepublic-income-pdf.ts';
+import { TransactionType, validateTransaction } from '../transaction.ts';
+
+const DIVIDEND_NOTICE = `TRADE REPUBLIC BANK GMBH BRUNNENSTRASSE 19-21 10119 BERLIN
+Max Mustermann
+DATUM 15.05.2025
+DEPOT 1234567890
+DIVIDENDE
+ÜBERSICHT
+Dividende mit dem Ex-Tag 12.05.2025.
+POSITION ANZAHL ERTRAG BETRAG
+Apple Inc.
+Registered Shares o.N.
+ISIN: US0378331005
+10 Stk. 0,25 USD 2,50 USD
+GESAMT 2,50 USD
+ABRECHNUNG
+POSITION BETRAG
+Quellensteuer für US-Emittent -0,38 USD
+Zwischensumme 1,0850 EUR/USD 1,95 EUR
+Kapitalertragssteuer -0,27 EUR
+Solidaritätszuschlag -0,01 EUR
+GESAMT 1,67 EUR
+BUCHUNG
+VERRECHNUNGSKONTO VALUTA BETRAG
+DE00000000000000000000 16.05.2025 1,67 EUR
+Trade Republic Bank GmbH www.traderepublic.com Sitz der Gesellschaft: Berlin`;
+
+const DISTRIBUTION_NOTICE = `DATUM 27.06.2025
+AUSSCHÜTTUNG
+POSITION ANZAHL ERTRAG BETRAG
+Vanguard FTSE All-World U.ETF
+ISIN: IE00B3RBWM25
+25 Stk. 0,4 EUR 10,00 EUR
+GESAMT 10,00 EUR`;
+
+const INTEREST_NOTICE = `DATUM 01.07.2025
+ZINSABRECHNUNG
+POSITION ZEITRAUM BETRAG
+Guthabenzinsen 01.06.2025 - 30.06.2025 12,34 EUR
+GESAMT 12,34 EUR
+ABRECHNUNG
+POSITION BETRAG
+Kapitalertragssteuer -3,09 EUR
+Solidaritätszuschlag -0,17 EUR
+GESAMT 9,08 EUR
+BUCHUNG
+VERRECHNUNGSKONTO VALUTA BETRAG
+DE00000000000000000000 01.07.2025 9,08 EUR`;
+
+describe('TradeRepublicIncomePdfReader', () => {
+    const reader = new TradeRepublicIncomePdfReader();
+
+    it('should convert a foreign dividend and itemize its taxes', async () => {
+        const [tx] = await reader.readTransactions({ pages: DIVIDEND_NOTICE });
+
+        expect(tx.type).toBe(TransactionType.DIVIDEND);
+        expect(tx.isin).toBe('US0378331005');
+        expect(tx.name).toBe('Apple Inc. Registered Shares o.N.');
+        expect(tx.shares).toBe(10);
+        expect(tx.price).toBe(0.2304);
+        expect(tx.grossAmount).toBe(2.3);
+        expect(tx.amount).toBe(1.67);
+        expect(tx.withholdingTax).toBe(0.35);
+        expect(tx.capitalGainsTax).toBe(0.27);
+        expect(tx.solidaritySurcharge).toBe(0.01);
+        expect(tx.churchTax).toBeUndefined();
+        expect(tx.tax).toBe(0.63);
+        expect(tx.fee).toBe(0);
+        expect(tx.currency).toBe('EUR');
+        expect(tx.date).toEqual(new Date(2025, 4, 16));
+        expect(tx.comment).toBe('DIVIDENDE EUR/USD 1.085');
+        expect(validateTransaction(tx)).toBe(true);
+    });
+
+    it('should parse a distribution without settlement and booking sections', async () => {
+        const [tx] = await reader.readTransactions({ pages: [DISTRIBUTION_NOTICE] });
+
+        expect(tx.type).toBe(TransactionType.DIVIDEND);
+        expect(tx.isin).toBe('IE00B3RBWM25');
+        expect(tx.price).toBe(0.4);
+        expect(tx.grossAmount).toBe(10);
+        expect(tx.amount).toBe(10);
+        expect(tx.tax).toBe(0);
+        expect(tx.date).toEqual(new Date(2025, 5, 27));
+        expect(tx.comment).toBe('AUSSCHÜTTUNG');
+    });
+
+    it('should parse cash interest without ISIN', async () => {
+        const [tx] = await reader.readTransactions({ pages: INTEREST_NOTICE });
+
+        expect(tx.type).toBe(TransactionType.INTEREST);
+        expect(tx.isin).toBeUndefined();
+        expect(tx.name).toBe('Guthabenzinsen 01.06.2025 - 30.06.2025');
+        expect(tx.grossAmount).toBe(12.34);
+        expect(tx.amount).toBe(9.08);
+        expect(tx.capitalGainsTax).toBe(3.09);
+        expect(tx.solidaritySurcharge).toBe(0.17);
+        expect(tx.withholdingTax).toBeUndefined();
+        expect(tx.tax).toBe(3.26);
+    });
+
+    it('should ignore documents that are not income notices', async () => {
+        const transactions = await reader.readTransactions({ pages: 'WERTPAPIERABRECHNUNG\nPOSITION ANZAHL PREIS BETRAG' });
+
+        expect(transactions).toEqual([]);
+    });
+});
@@ -0,0 +1,152 @@
+import { logger } from '../utils/logger.ts';
+import { parseAmountEU } from '../utils/parse.ts';
+import { TransactionType, type Transaction } from "../transaction.ts";
+import { NUMBER, TradeRepublicDocumentReader } from './traderepublic-document.ts';
+import { costs, isTax, itemizeTaxes, type SettlementItem } from './settlement.ts';
+
+/**
+ * Parsed dividend or interest notice
+ */
+interface ParsedIncomeNotice {
+    type: TransactionType.DIVIDEND | TransactionType.INTEREST;
+    /** Title of the document, e.g. "DIVIDENDE", "AUSSCHÜTTUNG" */
+    title: string;
+    name: string;
+    isin?: string;
+    shares?: number;
+    /** Income per share in `incomeCurrency` */
+    perShare?: number;
+    /** Income before fees and taxes in `incomeCurrency` */
+    gross: number;
+    incomeCurrency: string;
+    /** Units of `incomeCurrency` per unit of `currency`, e.g. 1.0850 for EUR/USD */
+    exchangeRate?: number;
+    /** Fees and taxes of the ABRECHNUNG section, negative when charged */
+    items: SettlementItem[];
+    /** Amount booked on the cash account */
+    total: number;
+    currency: string;
+    date: Date;
+}
+
+/**
+ * Reads Trade Republic dividend and interest notices, one PDF per payment.
+ * Unlike the monthly account statement, they contain the ISIN, the gross income and the taxes withheld by kind.
+ */
+export class TradeRepublicIncomePdfReader extends TradeRepublicDocumentReader<ParsedIncomeNotice> {
+    // Patterns
+    static EXCHANGE_RATE_PATTERN = new RegExp(`(${NUMBER}) ([A-Z]{3})/([A-Z]{3})`);
+
+    // Section headers
+    static TITLES: Record<string, ParsedIncomeNotice['type']> = {
+        'DIVIDENDE': TransactionType.DIVIDEND,
+        'AUSSCHÜTTUNG': TransactionType.DIVIDEND,
+        'ZINSZAHLUNG': TransactionType.INTEREST,
+        'ZINSABRECHNUNG': TransactionType.INTEREST,
+    };
+    static HEADER_POSITIONS = ['POSITION ANZAHL ERTRAG BETRAG', 'POSITION ZEITRAUM BETRAG'];
+
+    constructor() {
+        super('trade-republic-income-pdf');
+    }
+
+    parseTransaction(record: ParsedIncomeNotice): Transaction | null {
+        const items = record.items.map((item) => ({ ...item, amount: this.toBookingCurrency(record, item.amount, item.currency) }));
+        const taxes = items.filter((item) => isTax(item.label));
+        const fees = items.filter((item) => !isTax(item.label));
+        const perShare = record.perShare !== undefined
+            ? this.toBookingCurrency(record, record.perShare, record.incomeCurrency, 4)
+            : undefined;
+
+        return {
+            type: record.type,
+            isin: record.isin,
+            name: record.name,
+            shares: record.shares,
+            price: perShare,
+            amount: record.total,
+            fee: costs(fees),
+            tax: costs(taxes),
+            grossAmount: this.toBookingCurrency(record, record.gross, record.incomeCurrency),
+            ...itemizeTaxes(taxes),
+            date: record.date,
+            currency: record.currency,
+            comment: record.exchangeRate ? `${record.title} ${record.currency}/${record.incomeCurrency} ${record.exchangeRate}` : record.title,
+            source: this.name,
+        };
+    }
+
+    /**
+     * Parse the text of a dividend or interest notice
+     * @param pages - Single page text or array of page texts
+     * @returns Parsed notice or null if the document is not a dividend or interest notice
+     */
+    parse(pages: string | string[]): ParsedIncomeNotice | null {
+        const lines = this.toLines(pages);
+
+        const title = lines.find((line) => line in TradeRepublicIncomePdfReader.TITLES);
+        if (!title) {
+            logger.error('Not a dividend or interest notice, title is missing');
+            return null;
+        }
+
+        const header = TradeRepublicIncomePdfReader.HEADER_POSITIONS.find((h) => lines.includes(h));
+        const position = header ? this.parsePosition(lines, header) : null;
+        const booking = this.parseBooking(lines);
+        const date = booking?.valueDate ?? this.parseDocumentDate(lines);
+        if (!position || !date) {
+            logger.error({ position: !!position, date: !!date }, 'Could not parse dividend or interest notice');
+            return null;
+        }
+
+        const currency = booking?.currency ?? position.currency;
+        const exchangeRate = this.parseExchangeRate(lines, currency, position.currency);
+        const items = this.parseSettlementItems(lines);
+
+        // Without the booking section, derive the booked amount from the gross income and its costs
+        const conversion = { currency, exchangeRate };
+        const total = booking?.amount ?? Math.round(items.reduce(
+            (sum, item) => sum + this.toBookingCurrency(conversion, item.amount, item.currency),
+            this.toBookingCurrency(conversion, position.marketValue, position.currency),
+        ) * 100) / 100;
+
+        return {
+            type: TradeRepublicIncomePdfReader.TITLES[title],
+            title,
+            name: position.name,
+            isin: position.isin,
+            shares: position.shares,
+            perShare: position.price,
+            gross: position.marketValue,
+            incomeCurrency: position.currency,
+            exchangeRate,
+            items,
+            total,
+            currency,
+            date,
+        };
+    }
+
+    /**
+     * Exchange rate of the Zwischensumme line, e.g. "Zwischensumme 1,0850 EUR/USD 1,96 EUR"
+     */
+    private parseExchangeRate(lines: string[], currency: string, incomeCurrency: string): number | undefined {
+        if (currency === incomeCurrency) return undefined;
+
+        for (const line of lines) {
+            const match = line.match(TradeRepublicIncomePdfReader.EXCHANGE_RATE_PATTERN);
+            if (match && match[2] === currency && match[3] === incomeCurrency) {
+                return parseAmountEU(match[1])!;
+            }
+        }
+
+        logger.warn(`Exchange rate ${currency}/${incomeCurrency} is missing, amounts are not converted`);
+        return undefined;
+    }
+
+    private toBookingCurrency(record: Pick<ParsedIncomeNotice, 'currency' | 'exchangeRate'>, amount: number, currency: string, decimals: number = 2): number {
+        const converted = currency !== record.currency && record.exchangeRate ? amount / record.exchangeRate : amount;
+        const factor = 10 ** decimals;
+        return Math.round(converted * factor) / factor;
+    }
+}
@@ -1,4 +1,8 @@
 import { TradeRepublicPdfReader } from './traderepublic-pdf.ts';
+import { TransactionType, type Transaction } from '../transaction.ts';
+import { type PdfTextItem } from '../utils/pdf-layout.ts';
+
+const item = (text: string, x: number, y: number): PdfTextItem => ({ text, x, y, width: text.length * 5, height: 10 });
 
 describe('TradeRepublicPdfReader', () => {
     const reader = new TradeRepublicPdfReader();
@@ -282,6 +286,331 @@ geschützt. Weitere Informationen zur Sicherung Deiner Gelder findest Du unter h
 
             expect(result.transactions).toBeTruthy();
             expect(result.transactions!.length).toBe(6);
+            expect(result.cashTransactions).toEqual([
+                {
+                    date: new Date(2025, 8, 24),
+                    type: 'Kauf',
+                    fund: 'BlackRock ICS Euro Liquidity Fund',
+                    isin: 'IE000GWTNRJ7',
+                    shares: 1244.56,
+                    price: 1,
+                    amount: 1244.56,
+                },
+                {
+                    date: new Date(2025, 9, 1),
+                    type: 'Verkauf',
+                    fund: 'BlackRock ICS Euro Liquidity Fund',
+                    isin: 'IE000GWTNRJ7',
+                    shares: 10,
+                    price: 1,
+                    amount: 10,
+                },
+            ]);
+        });
+    });
+
+    describe('reconcile', () => {
+        const statement = (rows: string) => `KONTOÜBERSICHT
+PRODUKT ANFANGSSALDO ZAHLUNGSEINGANG ZAHLUNGSAUSGANG ENDSALDO
+Cashkonto 100,00 € 50,53 € 30,00 € 120,53 €
+UMSATZÜBERSICHT
+DATUM TYP BESCHREIBUNG ZAHLUNGSEINGANG ZAHLUNGSAUSGANG SALDO
+${rows}`;
+
+        it('should parse the account overview', () => {
+            const rows = reader.processAccountOverview([
+                'PRODUKT ANFANGSSALDO ZAHLUNGSEINGANG ZAHLUNGSAUSGANG ENDSALDO',
+                'Cashkonto 1.000,00 € 50,53 € 30,00 € 1.020,53 €',
+                'Geldmarktfonds',
+                '0,00 € 1.244,56 € 10,00 € 1.234,56 €',
+            ]);
+
+            expect(rows).toEqual([
+                { product: 'Cashkonto', openingBalance: 1000, received: 50.53, spent: 30, closingBalance: 1020.53 },
+                { product: 'Geldmarktfonds', openingBalance: 0, received: 1244.56, spent: 10, closingBalance: 1234.56 },
+            ]);
+        });
+
+        it('should pass when the parsed rows add up to the account overview', () => {
+            const result = reader.parse(statement(`1
+Feb.
+2021
+Überweisung Einzahlung 50,00 € 150,00 €
+15
+Feb.
+2021
+Zinszahlung Your interest payment 0,53 € 150,53 €
+01
+März
+2021
+Kartentransaktion Bäcker 30,00 € 120,53 €`));
+
+            expect(result.reconciliation).toEqual([
+                { product: 'Cashkonto', passed: true, receivedDifference: 0, spentDifference: 0, difference: 0 },
+            ]);
+        });
+
+        it('should fail when rows were joined', async () => {
+            const pages = statement(`1
+Feb.
+2021
+Überweisung Einzahlung 50,00 € 150,00 €
+Zinszahlung Your interest payment 0,53 € 150,53 €
+01
+März
+2021
+Kartentransaktion Bäcker 30,00 € 120,53 €`);
+
+            expect(reader.parse(pages).reconciliation).toEqual([
+                { product: 'Cashkonto', passed: false, receivedDifference: -50, spentDifference: 0, difference: -50 },
+            ]);
+            await expect(reader.readTransactions({ pages })).rejects.toThrow('Statement does not reconcile for Cashkonto (difference -50 €)');
+            await expect(reader.readTransactions({ pages, ignoreReconciliation: true })).resolves.toHaveLength(2);
+        });
+    });
+
+    describe('mergeStatements', () => {
+        const JANUARY = `DATUM 01 Jan. 2025 - 31 Jan. 2025
+UMSATZÜBERSICHT
+DATUM TYP BESCHREIBUNG ZAHLUNGSEINGANG ZAHLUNGSAUSGANG SALDO
+02
+Jan.
+2025
+Überweisung Einzahlung 100,00 € 100,00 €
+31
+Jan.
+2025
+Zinszahlung Your interest payment 0,20 € 100,20 €`;
+
+        const JANUARY_TO_FEBRUARY = `DATUM 15 Jan. 2025 - 28 Feb. 2025
+UMSATZÜBERSICHT
+DATUM TYP BESCHREIBUNG ZAHLUNGSEINGANG ZAHLUNGSAUSGANG SALDO
+31
+Jan.
+2025
+Zinszahlung Your interest payment 0,20 € 100,20 €
+03
+Feb.
+2025
+Kartentransaktion Bäcker 5,00 € 95,20 €
+03
+Feb.
+2025
+Kartentransaktion Bäcker 5,00 € 90,20 €`;
+
+        it('should read the period of a statement', () => {
+            expect(reader.parse(JANUARY).period).toEqual({ from: new Date(2025, 0, 1), to: new Date(2025, 0, 31) });
+        });
+
+        it('should order statements by period and drop overlapping rows', async () => {
+            const transactions = await reader.readTransactions({ statements: [[JANUARY_TO_FEBRUARY], [JANUARY]] });
+
+            expect(transactions.map((tx) => [tx.date, tx.amount])).toEqual([
+                [new Date(2025, 0, 2), 100],
+                [new Date(2025, 0, 31), 0.2],
+                [new Date(2025, 1, 3), -5],
+                [new Date(2025, 1, 3), -5],
+            ]);
+        });
+    });
+
+    describe('parseLayout', () => {
+        const transactionsHeader = (y: number, dx: number = 0) => [
+            item('DATUM', 20 + dx, y), item('TYP', 80 + dx, y), item('BESCHREIBUNG', 160 + dx, y),
+            item('ZAHLUNGSEINGANG', 330 + dx, y), item('ZAHLUNGSAUSGANG', 420 + dx, y), item('SALDO', 510 + dx, y),
+        ];
+
+        const pages: PdfTextItem[][] = [
+            [
+                item('DATUM 01 Feb. 2021 - 31 März 2021', 20, 800),
+                item('KONTOÜBERSICHT', 20, 760),
+                item('PRODUKT', 20, 740), item('ANFANGSSALDO', 160, 740), item('ZAHLUNGSEINGANG', 260, 740),
+                item('ZAHLUNGSAUSGANG', 360, 740), item('ENDSALDO', 460, 740),
+                item('Cashkonto', 20, 720), item('1.000,00 €', 170, 720), item('100,00 €', 270, 720),
+                item('460,00 €', 370, 720), item('640,00 €', 470, 720),
+                item('UMSATZÜBERSICHT', 20, 680),
+                ...transactionsHeader(660),
+                // First row of the statement, its direction can not be derived from a previous balance and the type is usually outgoing
+                item('01', 20, 640), item('Feb.', 20, 628), item('2021', 20, 616),
+                item('Geschenk', 80, 640),
+                item('Geschenk von Max', 160, 640), item('Mustermann', 160, 628),
+                item('100,00 €', 340, 640), item('1.100,00 €', 510, 640),
+                item('Erstellt am 06.11.2025, 00:00:00 Seite 1 von 2', 20, 30),
+            ],
+            [
+                item('TRADE REPUBLIC BANK GMBH BRUNNENSTRASSE 19-21 10119 BERLIN', 20, 820),
+                ...transactionsHeader(780, 5),
+                item('15', 25, 760), item('Feb.', 25, 748), item('2021', 25, 736),
+                item('Kartentransaktion', 85, 760),
+                item('Bäcker', 165, 760), item('Berlin', 165, 748), item('DE', 165, 736),
+                item('460,00 €', 435, 760), item('640,00 €', 515, 760),
+                item('TRANSAKTIONSÜBERSICHT', 20, 500),
+                item('DATUM', 20, 480), item('ZAHLUNGSART', 80, 480), item('GELDMARKTFONDS', 160, 480), item('STÜCK', 330, 480),
+                item('KURS', 400, 480), item('PRO', 424, 480), item('STÜCK', 444, 480), item('BETRAG', 510, 480),
+                item('24 Sept. 2025', 20, 460), item('Kauf', 80, 460),
+                item('BlackRock ICS Euro', 160, 460), item('Liquidity Fund', 160, 448), item('IE000GWTNRJ7', 160, 436),
+                item('10,00', 330, 460), item('1,00 €', 405, 460), item('10,00 €', 510, 460),
+            ],
+        ];
+
+        it('should rebuild rows and columns across pages', () => {
+            const result = reader.parseLayout(pages);
+
+            expect(result.period).toEqual({ from: new Date(2021, 1, 1), to: new Date(2021, 2, 31) });
+            expect(result.transactions).toEqual([
+                {
+                    date: new Date(2021, 1, 1),
+                    type: 'Geschenk',
+                    description: 'Geschenk von Max Mustermann',
+                    received: 100,
+                    spent: null,
+                    balance: 1100,
+                },
+                {
+                    date: new Date(2021, 1, 15),
+                    type: 'Kartentransaktion',
+                    description: 'Bäcker Berlin DE',
+                    received: null,
+                    spent: 460,
+                    balance: 640,
+                },
+            ]);
+            expect(result.cashTransactions).toEqual([
+                {
+                    date: new Date(2025, 8, 24),
+                    type: 'Kauf',
+                    fund: 'BlackRock ICS Euro Liquidity Fund',
+                    isin: 'IE000GWTNRJ7',
+                    shares: 10,
+                    price: 1,
+                    amount: 10,
+                },
+            ]);
+            expect(result.reconciliation).toEqual([
+                { product: 'Cashkonto', passed: true, receivedDifference: 0, spentDifference: 0, difference: 0 },
+            ]);
+        });
+
+        it('should read transactions from positioned text items', async () => {
+            const transactions = await reader.readTransactions({ pages });
+
+            expect(transactions.map((tx) => [tx.type, tx.amount])).toEqual([
+                [TransactionType.GIFT, 100],
+                [TransactionType.PAYMENT, -460],
+                [TransactionType.BUY, -10],
+            ]);
+        });
+
+        it('should fall back to the text parser when columns are not separate items', () => {
+            const result = reader.parseLayout([[
+                item('UMSATZÜBERSICHT', 20, 700),
+                item('DATUM TYP BESCHREIBUNG ZAHLUNGSEINGANG ZAHLUNGSAUSGANG SALDO', 20, 680),
+                item('1', 20, 660), item('Jan.', 20, 648), item('2021', 20, 636),
+                item('Überweisung Test transaction 100,00 € 100,00 €', 80, 624),
+            ]]);
+
+            expect(result.transactions).toHaveLength(1);
+            expect(result.transactions![0].received).toBe(100);
+        });
+    });
+
+    describe('English statements', () => {
+        const GERMAN = `DATUM 01 März 2025 - 31 Mai 2025
+KONTOÜBERSICHT
+PRODUKT ANFANGSSALDO ZAHLUNGSEINGANG ZAHLUNGSAUSGANG ENDSALDO
+Cashkonto 10,00 € 1.000,53 € 30,00 € 980,53 €
+UMSATZÜBERSICHT
+DATUM TYP BESCHREIBUNG ZAHLUNGSEINGANG ZAHLUNGSAUSGANG SALDO
+03
+März
+2025
+Überweisung Einzahlung 1.000,00 € 1.010,00 €
+01
+Mai
+2025
+Zinszahlung Your interest payment 0,53 € 1.010,53 €
+02
+Mai
+2025
+Kartentransaktion Bäcker 30,00 € 980,53 €
+TRANSAKTIONSÜBERSICHT
+DATUM ZAHLUNGSART GELDMARKTFONDS STÜCK KURS PRO STÜCK BETRAG
+24 Mai 2025 Kauf BlackRock ICS Euro Liquidity Fund IE000GWTNRJ7 1.244,56 1,00 € 1.244,56 €`;
+
+        const ENGLISH = `DATE 01 Mar 2025 - 31 May 2025
+ACCOUNT OVERVIEW
+PRODUCT OPENING BALANCE MONEY IN MONEY OUT CLOSING BALANCE
+Cash account €10.00 €1,000.53 €30.00 €980.53
+TRANSACTIONS
+DATE TYPE DESCRIPTION MONEY IN MONEY OUT BALANCE
+03
+Mar
+2025
+Transfer Deposit €1,000.00 €1,010.00
+01
+May
+2025
+Interest payment Your interest payment €0.53 €1,010.53
+02
+May
+2025
+Card Transaction Bakery €30.00 €980.53
+TRANSACTION OVERVIEW
+DATE PAYMENT TYPE MONEY MARKET FUND QUANTITY PRICE PER UNIT AMOUNT
+24 May 2025 Buy BlackRock ICS Euro Liquidity Fund IE000GWTNRJ7 1,244.56 €1.00 €1,244.56
+Created at 06/11/2025, 18:01:02 Page 1 of 1`;
+
+        it('should detect the statement language', () => {
+            expect(reader.detectLocale(GERMAN.split('\n'))).toBe('de');
+            expect(reader.detectLocale(ENGLISH.split('\n'))).toBe('en');
+        });
+
+        it('should parse an English statement like a German one', async () => {
+            const english = reader.parse(ENGLISH);
+            expect(english.locale).toBe('en');
+            expect(english.period).toEqual({ from: new Date(2025, 2, 1), to: new Date(2025, 4, 31) });
+            expect(english.reconciliation).toEqual([
+                { product: 'Cash account', passed: true, receivedDifference: 0, spentDifference: 0, difference: 0 },
+            ]);
+
+            const summary = (transactions: Transaction[]) => transactions.map(({ type, amount, date, isin, shares }) => ({ type, amount, date, isin, shares }));
+            const germanTransactions = await reader.readTransactions({ pages: GERMAN });
+            const englishTransactions = await reader.readTransactions({ pages: ENGLISH });
+
+            expect(englishTransactions).toHaveLength(4);
+            expect(summary(englishTransactions)).toEqual(summary(germanTransactions));
+            expect(englishTransactions.map((tx) => tx.amount)).toEqual([1000, 0.53, -30, -1244.56]);
+            expect(englishTransactions[3].shares).toBe(1244.56);
+        });
+    });
+
+    describe('processCashTransactions', () => {
+        it('should parse rows with the date on the same line', () => {
+            const lines = [
+                'DATUM ZAHLUNGSART GELDMARKTFONDS STÜCK KURS PRO STÜCK BETRAG',
+                '02 Jan. 2026 Kauf Deka-Geldmarkt: Euro LU0052863874 10,5 100,1234 € 1.051,30 €',
+                '03 Jan. 2026 Verkauf Deka-Geldmarkt: Euro',
+                'LU0052863874 2 100,20 € 200,40 €',
+            ];
+
+            const transactions = reader.processCashTransactions(lines);
+
+            expect(transactions).toHaveLength(2);
+            expect(transactions[0]).toMatchObject({ type: 'Kauf', fund: 'Deka-Geldmarkt: Euro', shares: 10.5, price: 100.1234, amount: 1051.3 });
+            expect(transactions[1]).toMatchObject({ date: new Date(2026, 0, 3), type: 'Verkauf', isin: 'LU0052863874', shares: 2 });
+        });
+
+        it('should export purchases as buys paid from the cash account', async () => {
+            const pages = `BARMITTELÜBERSICHT
+TRANSAKTIONSÜBERSICHT
+DATUM ZAHLUNGSART GELDMARKTFONDS STÜCK KURS PRO STÜCK BETRAG
+24 Sept. 2025 Kauf BlackRock ICS Euro Liquidity Fund IE000GWTNRJ7 1.244,56 1,00 € 1.244,56 €
+01 Okt. 2025 Verkauf BlackRock ICS Euro Liquidity Fund IE000GWTNRJ7 10,00 1,00 € 10,00 €`;
+
+            const [buy, sell] = await reader.readTransactions({ pages });
+
+            expect(buy).toMatchObject({ type: TransactionType.BUY, isin: 'IE000GWTNRJ7', shares: 1244.56, price: 1, amount: -1244.56 });
+            expect(sell).toMatchObject({ type: TransactionType.SELL, isin: 'IE000GWTNRJ7', shares: 10, amount: 10 });
         });
     });
 });
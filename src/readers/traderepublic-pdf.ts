@@ -1,7 +1,9 @@
 import { logger } from '../utils/logger.ts';
-import { parseAmountEU } from '../utils/parse.ts';
+import { parseAmountEU, parseAmountUS } from '../utils/parse.ts';
 import { TransactionType, type Transaction } from "../transaction.ts";
+import { findColumns, groupLines, splitCells, type PdfColumn, type PdfTextItem } from '../utils/pdf-layout.ts';
 import { BaseReader, type ReaderOptions } from './index.ts';
+import { type TradeRepublicLocale } from './traderepublic-ws.ts';
 
 /**
  * Parsed transaction from PDF
@@ -15,6 +17,100 @@ interface ParsedPdfTransaction {
     balance: number;
 }
 
+/**
+ * Parsed money market fund transaction from the TRANSAKTIONSÜBERSICHT table of PDF
+ */
+interface ParsedPdfCashTransaction {
+    date: Date;
+    /** Payment type (ZAHLUNGSART), e.g. "Kauf" */
+    type: string | null;
+    fund: string;
+    isin: string | null;
+    shares: number;
+    price: number;
+    amount: number;
+}
+
+type ParsedPdfRecord = ParsedPdfTransaction | ParsedPdfCashTransaction;
+
+/**
+ * Row of the KONTOÜBERSICHT table
+ */
+interface AccountOverviewRow {
+    product: string;
+    openingBalance: number;
+    received: number;
+    spent: number;
+    closingBalance: number;
+}
+
+/**
+ * Result of checking the parsed rows of a product against its KONTOÜBERSICHT row
+ */
+export interface ReconciliationResult {
+    product: string;
+    passed: boolean;
+    /** Parsed incoming payments minus ZAHLUNGSEINGANG */
+    receivedDifference: number;
+    /** Parsed outgoing payments minus ZAHLUNGSAUSGANG */
+    spentDifference: number;
+    /** Closing balance derived from the parsed rows minus ENDSALDO */
+    difference: number;
+}
+
+/**
+ * Table rebuilt from positioned text items, one cell per column
+ */
+interface LayoutTable {
+    header: string;
+    columns: PdfColumn[];
+    rows: string[][];
+}
+
+/**
+ * Chapter names, headers and dictionaries of a statement language
+ */
+interface StatementLabels {
+    chapters: {
+        accountHolder: string;
+        accountOverview: string;
+        transactionsOverview: string;
+        cashOverview: string;
+        transactionOverview: string;
+        notes: string;
+    };
+    headers: {
+        account: string;
+        transactions: string;
+        cash: string;
+    };
+    /** Products of the account overview */
+    products: {
+        cashAccount: string;
+        moneyMarket: string;
+    };
+    /** Transaction types that usually add to the balance */
+    typesIn: string[];
+    /** Transaction types that usually take from the balance */
+    typesOut: string[];
+    /** Trades are sales when money is received, purchases otherwise */
+    trade: string;
+    types: Record<string, TransactionType>;
+    /** Payment types of the money market fund table */
+    cashTypes: Record<string, TransactionType>;
+    months: Record<string, number>;
+    /** Amounts with currency, "1.234,56 €" in German and "€1,234.56" in English statements */
+    moneyPattern: RegExp;
+    /** Row of the money market fund table: type and fund, ISIN, quantity, price and amount */
+    cashRowPattern: RegExp;
+    parseAmount: (value: string | undefined) => number | undefined;
+}
+
+/**
+ * Page texts, or positioned text items per page
+ */
+type StatementPages = string | string[] | PdfTextItem[][];
+
 /**
  * Date parsing result
  */
@@ -28,23 +124,40 @@ interface DateParseResult {
  * Options for TradeRepublicPdfReader
  */
 interface TradeRepublicPdfOptions extends ReaderOptions {
-    /** Single page text or array of page texts */
-    pages: string | string[];
+    /** Single page text, array of page texts or positioned text items per page */
+    pages?: StatementPages;
+    /** Pages of several statements, merged into one history without the rows where they overlap */
+    statements?: StatementPages[];
+    /** Return the parsed rows even if they do not add up to the KONTOÜBERSICHT balances */
+    ignoreReconciliation?: boolean;
 }
 
 /**
  * Parsed PDF result
  */
 interface ParsedPdfResult {
+    /** Period of the statement, from the DATUM line of the first page */
+    period?: { from: Date; to: Date };
+    /** Language of the statement */
+    locale?: TradeRepublicLocale;
     transactions?: ParsedPdfTransaction[];
+    cashTransactions?: ParsedPdfCashTransaction[];
+    accountOverview?: AccountOverviewRow[];
+    /** Only set when the statement has a KONTOÜBERSICHT */
+    reconciliation?: ReconciliationResult[];
 }
 
-export class TradeRepublicPdfReader extends BaseReader<ParsedPdfTransaction> {
+export class TradeRepublicPdfReader extends BaseReader<ParsedPdfRecord> {
     // Patterns
     static DAY_PATTERN = /^\d{1,2}$/;
     static MONTH_PATTERN = /^\p{Lu}\p{Ll}{2,3}\.?$/u;
     static YEAR_PATTERN = /^\d{4}$/;
+    static ISIN_PATTERN = /\b[A-Z]{2}[A-Z0-9]{9}\d\b/;
+    static PERIOD_PATTERN = /^(?:DATUM|DATE) (\d{1,2}) (\S+) (\d{4}) - (\d{1,2}) (\S+) (\d{4})$/;
     static MONEY_PATTERN = /(-?\d+(?:\.\d{3})*(?:,\d{2})?\s*€)/g;
+    static CASH_ROW_PATTERN = /^(.+?) (?:([A-Z]{2}[A-Z0-9]{9}\d) )?(\d+(?:\.\d{3})*(?:,\d+)?) (\d+(?:\.\d{3})*(?:,\d+)?\s*€) (-?\d+(?:\.\d{3})*(?:,\d+)?\s*€)$/;
+    static MONEY_PATTERN_EN = /(-?€\s*\d+(?:,\d{3})*(?:\.\d{2})?)/g;
+    static CASH_ROW_PATTERN_EN = /^(.+?) (?:([A-Z]{2}[A-Z0-9]{9}\d) )?(\d+(?:,\d{3})*(?:\.\d+)?) (€\s*\d+(?:,\d{3})*(?:\.\d+)?) (-?€\s*\d+(?:,\d{3})*(?:\.\d+)?)$/;
     static BALANCE_EPSILON = 0.01;
 
     // Chapter names
@@ -60,6 +173,13 @@ export class TradeRepublicPdfReader extends BaseReader<ParsedPdfTransaction> {
     static HEADER_TRANSACTIONS = 'DATUM TYP BESCHREIBUNG ZAHLUNGSEINGANG ZAHLUNGSAUSGANG SALDO';
     static HEADER_CASH = 'DATUM ZAHLUNGSART GELDMARKTFONDS STÜCK KURS PRO STÜCK BETRAG';
 
+    // Columns of the headers, "KURS PRO STÜCK" is a single column
+    static COLUMN_COUNTS: Record<keyof StatementLabels['headers'], number> = {
+        account: 5,
+        transactions: 6,
+        cash: 6,
+    };
+
     // Transaction types
     static TRANSACTION_TYPES_IN = ['Erträge', 'Überweisung', 'Zinszahlung', 'Prämie', 'Steuern', 'Empfehlung'];
     static TRANSACTION_TYPES_OUT = ['Handel', 'Kartentransaktion', 'Geschenk'];
@@ -78,32 +198,24 @@ export class TradeRepublicPdfReader extends BaseReader<ParsedPdfTransaction> {
         'Gernot Mittendorfer',
         'Christian Hecker',
         'Thomas Pischke',
+        'www.traderepublic.com Registered office: Berlin',
+        'VAT ID DE307510626',
+        'Managing Directors',
     ];
 
-    static PATTERNS_TO_REMOVE = [/^Erstellt am \d{2}\.\d{2}\.\d{4}, \d{2}:\d{2}:\d{2} Seite \d+ von \d+$/];
+    static PATTERNS_TO_REMOVE = [
+        /^Erstellt am \d{2}\.\d{2}\.\d{4}, \d{2}:\d{2}:\d{2} Seite \d+ von \d+$/,
+        /^Created (?:at|on) \S+, \d{2}:\d{2}:\d{2} Page \d+ of \d+$/,
+    ];
 
-    private chapters: string[];
-    private headers: string[];
-    private transactionTypes: { INCOME: string[]; EXPENSE: string[] };
+    private labels!: StatementLabels;
+    private chapters!: string[];
+    private headers!: string[];
+    private transactionTypes!: { INCOME: string[]; EXPENSE: string[] };
 
     constructor() {
         super('trade-republic-pdf');
-        this.chapters = [
-            TradeRepublicPdfReader.CHAPTER_ACCOUNT_OVERVIEW,
-            TradeRepublicPdfReader.CHAPTER_TRANSACTIONS_OVERVIEW,
-            TradeRepublicPdfReader.CHAPTER_CASH_OVERVIEW,
-            TradeRepublicPdfReader.CHAPTER_TRANSACTION_OVERVIEW,
-            TradeRepublicPdfReader.CHAPTER_NOTES,
-        ];
-        this.headers = [
-            TradeRepublicPdfReader.HEADER_ACCOUNT,
-            TradeRepublicPdfReader.HEADER_TRANSACTIONS,
-            TradeRepublicPdfReader.HEADER_CASH,
-        ];
-        this.transactionTypes = {
-            INCOME: TradeRepublicPdfReader.TRANSACTION_TYPES_IN,
-            EXPENSE: TradeRepublicPdfReader.TRANSACTION_TYPES_OUT,
-        };
+        this.useLocale('de');
     }
 
     /** Maps German PDF transaction types to TransactionType enum */
@@ -118,6 +230,18 @@ export class TradeRepublicPdfReader extends BaseReader<ParsedPdfTransaction> {
         'Geschenk': TransactionType.GIFT,
     };
 
+    /** Maps English PDF transaction types to TransactionType enum */
+    private static readonly ENGLISH_TYPE_MAP: Record<string, TransactionType> = {
+        'Earnings': TransactionType.DIVIDEND,
+        'Transfer': TransactionType.DEPOSIT,
+        'Interest payment': TransactionType.INTEREST,
+        'Reward': TransactionType.DEPOSIT,
+        'Tax': TransactionType.TAX,
+        'Referral': TransactionType.DEPOSIT,
+        'Card Transaction': TransactionType.PAYMENT,
+        'Gift': TransactionType.GIFT,
+    };
+
     private static readonly GERMAN_MONTHS: Record<string, number> = {
         Jan: 0,
         'Jan.': 0,
@@ -145,13 +269,105 @@ export class TradeRepublicPdfReader extends BaseReader<ParsedPdfTransaction> {
         'Dez.': 11,
     };
 
-    async fetchTransactionRecords(options: TradeRepublicPdfOptions): Promise<ParsedPdfTransaction[]> {
-        const parsed = this.parse(options.pages);
-        return parsed.transactions || [];
+    private static readonly ENGLISH_MONTHS: Record<string, number> = {
+        Jan: 0,
+        'Jan.': 0,
+        Feb: 1,
+        'Feb.': 1,
+        Mar: 2,
+        'Mar.': 2,
+        Apr: 3,
+        'Apr.': 3,
+        May: 4,
+        June: 5,
+        'Jun.': 5,
+        July: 6,
+        'Jul.': 6,
+        Aug: 7,
+        'Aug.': 7,
+        Sep: 8,
+        'Sept.': 8,
+        Oct: 9,
+        'Oct.': 9,
+        Nov: 10,
+        'Nov.': 10,
+        Dec: 11,
+        'Dec.': 11,
+    };
+
+    static LABELS: Record<TradeRepublicLocale, StatementLabels> = {
+        en: {
+            chapters: {
+                accountHolder: 'ACCOUNT HOLDER',
+                accountOverview: 'ACCOUNT OVERVIEW',
+                transactionsOverview: 'TRANSACTIONS',
+                cashOverview: 'CASH OVERVIEW',
+                transactionOverview: 'TRANSACTION OVERVIEW',
+                notes: 'NOTES TO THE ACCOUNT STATEMENT',
+            },
+            headers: {
+                account: 'PRODUCT OPENING BALANCE MONEY IN MONEY OUT CLOSING BALANCE',
+                transactions: 'DATE TYPE DESCRIPTION MONEY IN MONEY OUT BALANCE',
+                cash: 'DATE PAYMENT TYPE MONEY MARKET FUND QUANTITY PRICE PER UNIT AMOUNT',
+            },
+            products: { cashAccount: 'Cash account', moneyMarket: 'Money market fund' },
+            typesIn: ['Earnings', 'Transfer', 'Interest payment', 'Reward', 'Tax', 'Referral'],
+            typesOut: ['Trade', 'Card Transaction', 'Gift'],
+            trade: 'Trade',
+            types: TradeRepublicPdfReader.ENGLISH_TYPE_MAP,
+            cashTypes: { 'Buy': TransactionType.BUY, 'Sell': TransactionType.SELL, 'Distribution': TransactionType.DIVIDEND },
+            months: TradeRepublicPdfReader.ENGLISH_MONTHS,
+            moneyPattern: TradeRepublicPdfReader.MONEY_PATTERN_EN,
+            cashRowPattern: TradeRepublicPdfReader.CASH_ROW_PATTERN_EN,
+            parseAmount: parseAmountUS,
+        },
+        de: {
+            chapters: {
+                accountHolder: TradeRepublicPdfReader.CHAPTER_ACCOUNT_HOLDER,
+                accountOverview: TradeRepublicPdfReader.CHAPTER_ACCOUNT_OVERVIEW,
+                transactionsOverview: TradeRepublicPdfReader.CHAPTER_TRANSACTIONS_OVERVIEW,
+                cashOverview: TradeRepublicPdfReader.CHAPTER_CASH_OVERVIEW,
+                transactionOverview: TradeRepublicPdfReader.CHAPTER_TRANSACTION_OVERVIEW,
+                notes: TradeRepublicPdfReader.CHAPTER_NOTES,
+            },
+            headers: {
+                account: TradeRepublicPdfReader.HEADER_ACCOUNT,
+                transactions: TradeRepublicPdfReader.HEADER_TRANSACTIONS,
+                cash: TradeRepublicPdfReader.HEADER_CASH,
+            },
+            products: { cashAccount: 'Cashkonto', moneyMarket: 'Geldmarktfonds' },
+            typesIn: TradeRepublicPdfReader.TRANSACTION_TYPES_IN,
+            typesOut: TradeRepublicPdfReader.TRANSACTION_TYPES_OUT,
+            trade: 'Handel',
+            types: TradeRepublicPdfReader.GERMAN_TYPE_MAP,
+            cashTypes: { 'Kauf': TransactionType.BUY, 'Verkauf': TransactionType.SELL, 'Ausschüttung': TransactionType.DIVIDEND },
+            months: TradeRepublicPdfReader.GERMAN_MONTHS,
+            moneyPattern: TradeRepublicPdfReader.MONEY_PATTERN,
+            cashRowPattern: TradeRepublicPdfReader.CASH_ROW_PATTERN,
+            parseAmount: parseAmountEU,
+        },
+    };
+
+    async fetchTransactionRecords(options: TradeRepublicPdfOptions): Promise<ParsedPdfRecord[]> {
+        const statements = (options.statements ?? [options.pages ?? []]).map((pages) =>
+            Array.isArray(pages) && Array.isArray(pages[0]) ? this.parseLayout(pages as PdfTextItem[][]) : this.parse(pages as string | string[]));
+
+        for (const parsed of statements) {
+            const failed = parsed.reconciliation?.filter((r) => !r.passed) || [];
+            if (failed.length > 0 && !options.ignoreReconciliation) {
+                throw new Error(`Statement does not reconcile for ${failed.map((r) => `${r.product} (difference ${r.difference} €)`).join(', ')}, some rows were not parsed correctly`);
+            }
+        }
+
+        return this.mergeStatements(statements);
     }
 
-    parseTransaction(record: ParsedPdfTransaction): Transaction | null {
-        const type = this.classifyGermanType(record.type, record);
+    parseTransaction(record: ParsedPdfRecord): Transaction | null {
+        if ('fund' in record) {
+            return this.parseCashTransaction(record);
+        }
+
+        const type = this.classifyType(record.type, record);
         const amount = record.received ? record.received : record.spent ? -record.spent : 0;
 
         return {
@@ -165,23 +381,97 @@ export class TradeRepublicPdfReader extends BaseReader<ParsedPdfTransaction> {
     }
 
     /**
-     * Classify a German PDF type string into a TransactionType.
+     * Money market fund purchases are paid from the cash account, sales are paid into it
+     */
+    private parseCashTransaction(record: ParsedPdfCashTransaction): Transaction | null {
+        const type = record.type ? this.findLabel((labels) => labels.cashTypes[record.type!]) : undefined;
+        if (!type) {
+            logger.warn({ type: record.type }, 'Unmapped money market fund payment type, skipping');
+            return null;
+        }
+
+        return {
+            type,
+            date: record.date,
+            isin: record.isin || undefined,
+            name: record.fund,
+            shares: type === TransactionType.DIVIDEND ? undefined : record.shares,
+            price: type === TransactionType.DIVIDEND ? undefined : record.price,
+            amount: type === TransactionType.BUY ? -record.amount : record.amount,
+            currency: 'EUR',
+            source: this.name,
+        };
+    }
+
+    /**
+     * Classify a PDF type string of any statement language into a TransactionType.
      * "Handel" is contextual: income → SELL, expense → BUY.
      */
-    private classifyGermanType(germanType: string | null, pdfTx: ParsedPdfTransaction): TransactionType {
-        if (!germanType) return TransactionType.FEE;
+    private classifyType(pdfType: string | null, pdfTx: ParsedPdfTransaction): TransactionType {
+        if (!pdfType) return TransactionType.FEE;
 
-        const mapped = TradeRepublicPdfReader.GERMAN_TYPE_MAP[germanType];
+        const mapped = this.findLabel((labels) => labels.types[pdfType]);
         if (mapped) return mapped;
 
-        if (germanType === 'Handel') {
+        if (this.findLabel((labels) => labels.trade === pdfType)) {
             return pdfTx.received ? TransactionType.SELL : TransactionType.BUY;
         }
 
-        logger.warn({ type: germanType }, 'Unmapped German PDF transaction type, defaulting to FEE');
+        logger.warn({ type: pdfType }, 'Unmapped PDF transaction type, defaulting to FEE');
         return TransactionType.FEE;
     }
 
+    /**
+     * Records are converted after parsing, look up their labels in the dictionaries of all languages
+     */
+    private findLabel<T>(lookup: (labels: StatementLabels) => T | undefined): T | undefined {
+        for (const labels of Object.values(TradeRepublicPdfReader.LABELS)) {
+            const value = lookup(labels);
+            if (value) return value;
+        }
+        return undefined;
+    }
+
+    /**
+     * Detect the statement language by its chapter names and table headers
+     * @param lines - Text lines of the statement
+     */
+    detectLocale(lines: string[]): TradeRepublicLocale {
+        const trimmed = new Set(lines.map((line) => line.trim()));
+        const locales = Object.keys(TradeRepublicPdfReader.LABELS) as TradeRepublicLocale[];
+        const locale = locales.find((l) => {
+            const { chapters, headers } = TradeRepublicPdfReader.LABELS[l];
+            return [...Object.values(chapters), ...Object.values(headers)].some((label) => trimmed.has(label));
+        });
+        return locale ?? 'de';
+    }
+
+    /**
+     * Tables can be processed on their own, their header tells the language
+     */
+    private useHeaderLocale(header: string | undefined): void {
+        const locales = Object.keys(TradeRepublicPdfReader.LABELS) as TradeRepublicLocale[];
+        const locale = locales.find((l) => Object.values(TradeRepublicPdfReader.LABELS[l].headers).includes(header ?? ''));
+        if (locale) this.useLocale(locale);
+    }
+
+    private useLocale(locale: TradeRepublicLocale): void {
+        const labels = TradeRepublicPdfReader.LABELS[locale];
+        this.labels = labels;
+        this.chapters = [
+            labels.chapters.accountOverview,
+            labels.chapters.transactionsOverview,
+            labels.chapters.cashOverview,
+            labels.chapters.transactionOverview,
+            labels.chapters.notes,
+        ];
+        this.headers = Object.values(labels.headers);
+        this.transactionTypes = {
+            INCOME: labels.typesIn,
+            EXPENSE: labels.typesOut,
+        };
+    }
+
     /**
      * Parse the PDF and return structured data
      * @param pages - Single page text or array of page texts
@@ -191,17 +481,255 @@ export class TradeRepublicPdfReader extends BaseReader<ParsedPdfTransaction> {
         let pageArray = Array.isArray(pages) ? pages : [pages];
         pageArray = this.removeHeaders(pageArray);
 
-        const result: ParsedPdfResult = {};
+        const result: ParsedPdfResult = { locale: this.detectLocale(pageArray.flatMap((page) => page.split('\n'))) };
+        this.useLocale(result.locale!);
+        const { chapters, headers } = this.labels;
 
         this.processChapters(pageArray, (chapterName: string, lines: string[]) => {
-            if (chapterName === TradeRepublicPdfReader.CHAPTER_TRANSACTIONS_OVERVIEW) {
+            if (chapterName === chapters.accountHolder) {
+                result.period = this.findPeriod(lines);
+            } else if (chapterName === chapters.accountOverview) {
+                result.accountOverview = this.processAccountOverview(lines);
+            } else if (chapterName === chapters.transactionsOverview) {
                 result.transactions = this.processTransactions(lines);
+            } else if (lines.includes(headers.cash)) {
+                // The money market fund table follows the holdings of BARMITTELÜBERSICHT, in its own chapter in newer statements
+                result.cashTransactions = [
+                    ...(result.cashTransactions || []),
+                    ...this.processCashTransactions(lines.slice(lines.indexOf(headers.cash))),
+                ];
             }
         });
 
+        if (result.accountOverview) {
+            result.reconciliation = this.reconcile(result);
+        }
+
         return result;
     }
 
+    /**
+     * Parse the PDF from positioned text items. Cells are assigned to columns by their position under the header,
+     * so wrapped descriptions and amounts end up in the right row and column without guessing.
+     * Falls back to the text parser if a table header does not have the expected columns.
+     * @param pages - Text items per page
+     * @returns Parsed data
+     */
+    parseLayout(pages: PdfTextItem[][]): ParsedPdfResult {
+        const exactLines = new Set(TradeRepublicPdfReader.EXACT_LINES_TO_REMOVE);
+        const patterns = TradeRepublicPdfReader.PATTERNS_TO_REMOVE;
+        const lines = pages.map((items) =>
+            groupLines(items).filter((line) => !exactLines.has(line.text) && !patterns.some((pattern) => pattern.test(line.text)))
+        );
+
+        const result: ParsedPdfResult = { locale: this.detectLocale(lines.flat().map((line) => line.text)) };
+        this.useLocale(result.locale!);
+        const { chapters, headers } = this.labels;
+
+        const tables: LayoutTable[] = [];
+        let chapter = chapters.accountHolder;
+        let table: LayoutTable | undefined;
+
+        for (const line of lines.flat()) {
+            if (this.chapters.includes(line.text)) {
+                chapter = line.text;
+                table = undefined;
+            } else if (this.headers.includes(line.text)) {
+                // Headers repeat on every page, the table continues with the columns of this page
+                const columns = findColumns(line);
+                const kind = (Object.keys(headers) as (keyof typeof headers)[]).find((key) => headers[key] === line.text)!;
+                if (columns.length !== TradeRepublicPdfReader.COLUMN_COUNTS[kind]) {
+                    logger.warn({ header: line.text, columns: columns.map((c) => c.label) }, 'Unexpected table columns, falling back to text parsing');
+                    return this.parse(lines.map((page) => page.map((l) => l.text).join('\n')));
+                }
+
+                if (table?.header === line.text) {
+                    table.columns = columns;
+                } else {
+                    table = { header: line.text, columns, rows: [] };
+                    tables.push(table);
+                }
+            } else if (table) {
+                const cells = splitCells(line, table.columns);
+                const last = table.rows[table.rows.length - 1];
+                if (this.isRowStart(table, cells)) {
+                    table.rows.push(cells);
+                } else if (last) {
+                    // Continuation of wrapped cells
+                    cells.forEach((cell, i) => (last[i] = [last[i], cell].filter(Boolean).join(' ')));
+                }
+            } else if (chapter === chapters.accountHolder) {
+                result.period ??= this.findPeriod([line.text]);
+            }
+        }
+
+        for (const { header, rows } of tables) {
+            if (header === headers.account) {
+                result.accountOverview = rows.map(([product, opening, received, spent, closing]) => ({
+                    product,
+                    openingBalance: this.labels.parseAmount(opening) || 0,
+                    received: this.labels.parseAmount(received) || 0,
+                    spent: this.labels.parseAmount(spent) || 0,
+                    closingBalance: this.labels.parseAmount(closing) || 0,
+                }));
+            } else if (header === headers.transactions) {
+                result.transactions = this.processTransactionRows(rows);
+            } else if (header === headers.cash) {
+                result.cashTransactions = this.processCashTransactionRows(rows);
+            }
+        }
+
+        if (result.accountOverview) {
+            result.reconciliation = this.reconcile(result);
+        }
+
+        return result;
+    }
+
+    /**
+     * Rows of the layout tables start with a day, dates are wrapped over several lines.
+     * The account overview has no dates, a row starts with a product once the previous row is complete.
+     */
+    private isRowStart(table: LayoutTable, cells: string[]): boolean {
+        if (table.header === this.labels.headers.account) {
+            const last = table.rows[table.rows.length - 1];
+            return cells[0] !== '' && (!last || last[last.length - 1] !== '');
+        }
+        return TradeRepublicPdfReader.DAY_PATTERN.test(cells[0].split(/\s+/)[0]);
+    }
+
+    /**
+     * Converts the date cell of a layout table, e.g. "1 Feb. 2021"
+     */
+    private parseDateCell(cell: string): Date | null {
+        const [day, month, year] = cell.split(/\s+/);
+        if (!month?.match(TradeRepublicPdfReader.MONTH_PATTERN) || !year?.match(TradeRepublicPdfReader.YEAR_PATTERN)) {
+            logger.error({ date: cell }, 'Could not parse date of table row');
+            return null;
+        }
+        return this.toJSDate(year, month, day);
+    }
+
+    /**
+     * Converts UMSATZÜBERSICHT rows of the layout parser, the direction is given by the column of the amount
+     */
+    private processTransactionRows(rows: string[][]): ParsedPdfTransaction[] {
+        const ALL_TYPES = [...this.transactionTypes.INCOME, ...this.transactionTypes.EXPENSE];
+
+        const transactions: ParsedPdfTransaction[] = [];
+        let previousBalance: number | null = null;
+
+        for (const [dateCell, type, description, received, spent, balance] of rows) {
+            const date = this.parseDateCell(dateCell);
+            if (!date) continue;
+
+            const transaction: ParsedPdfTransaction = {
+                date,
+                type: this.findTransactionType(type, ALL_TYPES),
+                description: description || null,
+                received: this.labels.parseAmount(received) ?? null,
+                spent: this.labels.parseAmount(spent) ?? null,
+                balance: this.labels.parseAmount(balance) || 0,
+            };
+            this.validateBalance(transaction, previousBalance);
+
+            transactions.push(transaction);
+            previousBalance = transaction.balance;
+        }
+
+        return transactions;
+    }
+
+    /**
+     * Converts money market fund rows of the layout parser, the ISIN is printed below the fund name
+     */
+    private processCashTransactionRows(rows: string[][]): ParsedPdfCashTransaction[] {
+        const transactions: ParsedPdfCashTransaction[] = [];
+
+        for (const [dateCell, type, fund, shares, price, amount] of rows) {
+            const date = this.parseDateCell(dateCell);
+            if (!date) continue;
+
+            const isin = fund.match(TradeRepublicPdfReader.ISIN_PATTERN)?.[0] ?? null;
+            transactions.push({
+                date,
+                type: type in this.labels.cashTypes ? type : null,
+                fund: (isin ? fund.replace(isin, '') : fund).replace(/\s+/g, ' ').trim(),
+                isin,
+                shares: this.labels.parseAmount(shares) || 0,
+                price: this.labels.parseAmount(price) || 0,
+                amount: this.labels.parseAmount(amount) || 0,
+            });
+        }
+
+        return transactions;
+    }
+
+    /**
+     * Merge the rows of several statements into one history, ordered by statement period.
+     * Consecutive statements can overlap, rows of a later statement that already appeared in an earlier one are dropped.
+     * @param statements - Parsed statements in any order
+     * @returns Rows of all statements
+     */
+    mergeStatements(statements: ParsedPdfResult[]): ParsedPdfRecord[] {
+        const start = (statement: ParsedPdfResult) =>
+            (statement.period?.from ?? statement.transactions?.[0]?.date ?? statement.cashTransactions?.[0]?.date)?.getTime() ?? 0;
+        const ordered = [...statements].sort((a, b) => start(a) - start(b));
+
+        const seen = new Set<string>();
+        const records: ParsedPdfRecord[] = [];
+        let duplicates = 0;
+
+        ordered.forEach((statement, index) => {
+            const previous = ordered[index - 1]?.period;
+            if (previous && statement.period && statement.period.from.getTime() - previous.to.getTime() > 24 * 60 * 60 * 1000) {
+                logger.warn({ from: previous.to, to: statement.period.from }, 'Gap between statements, transactions in between are missing');
+            }
+
+            // Only compare with earlier statements, identical rows within one statement are separate transactions
+            const keys = new Set<string>();
+            for (const record of [...(statement.transactions || []), ...(statement.cashTransactions || [])]) {
+                const key = this.recordKey(record);
+                keys.add(key);
+                if (seen.has(key)) {
+                    duplicates++;
+                    continue;
+                }
+                records.push(record);
+            }
+            keys.forEach((key) => seen.add(key));
+        });
+
+        if (duplicates > 0) {
+            logger.info(`Removed ${duplicates} rows that appear in overlapping statements`);
+        }
+        return records;
+    }
+
+    /**
+     * Identity of a row for de-duplication: date, type, description, amount and running balance
+     */
+    private recordKey(record: ParsedPdfRecord): string {
+        if ('fund' in record) {
+            return [record.date.getTime(), record.type, record.fund, record.shares, record.amount].join('|');
+        }
+        return [record.date.getTime(), record.type, record.description, record.received, record.spent, record.balance].join('|');
+    }
+
+    /**
+     * Find the statement period, e.g. "DATUM 01 Apr. 2021 - 05 Nov. 2025"
+     */
+    private findPeriod(lines: string[]): ParsedPdfResult['period'] {
+        for (const line of lines) {
+            const match = line.match(TradeRepublicPdfReader.PERIOD_PATTERN);
+            if (match) {
+                const [, fromDay, fromMonth, fromYear, toDay, toMonth, toYear] = match;
+                return { from: this.toJSDate(fromYear, fromMonth, fromDay), to: this.toJSDate(toYear, toMonth, toDay) };
+            }
+        }
+        return undefined;
+    }
+
     /**
      * Remove known header and footer lines from pages
      * @param pages - Array of page texts
@@ -229,7 +757,7 @@ export class TradeRepublicPdfReader extends BaseReader<ParsedPdfTransaction> {
     processChapters(pages: string[], callback: (chapterName: string, lines: string[]) => void): void {
         const allLines = pages.flatMap((page) => page.split('\n'));
 
-        let currentChapter = TradeRepublicPdfReader.CHAPTER_ACCOUNT_HOLDER;
+        let currentChapter = this.labels.chapters.accountHolder;
         let currentContent: string[] = [];
         let headerSeenInChapter = false;
 
@@ -276,10 +804,153 @@ export class TradeRepublicPdfReader extends BaseReader<ParsedPdfTransaction> {
         const ALL_TYPES = [...this.transactionTypes.INCOME, ...this.transactionTypes.EXPENSE];
 
         // Skip the header line if present
-        const startIndex = lines[0] === TradeRepublicPdfReader.HEADER_TRANSACTIONS ? 1 : 0;
+        this.useHeaderLocale(lines[0]);
+        const startIndex = lines[0] === this.labels.headers.transactions ? 1 : 0;
 
         const transactions: ParsedPdfTransaction[] = [];
         let previousBalance: number | null = null;
+
+        for (const { date, text } of this.splitRows(lines, startIndex)) {
+            // Parse the transaction for this date
+            const transaction = this.parseTransactionSegment(text, date, ALL_TYPES, previousBalance);
+            if (transaction) {
+                // Validate balance calculation
+                this.validateBalance(transaction, previousBalance);
+
+                transactions.push(transaction);
+                previousBalance = transaction.balance;
+            }
+        }
+
+        return transactions;
+    }
+
+    /**
+     * Processes the money market fund table and extracts transaction rows.
+     * @param lines - Array of text lines, starting with the table header
+     * @returns Array of parsed money market fund transactions
+     */
+    processCashTransactions(lines: string[]): ParsedPdfCashTransaction[] {
+        this.useHeaderLocale(lines[0]);
+        const startIndex = lines[0] === this.labels.headers.cash ? 1 : 0;
+
+        const transactions: ParsedPdfCashTransaction[] = [];
+        for (const { date, text } of this.splitRows(lines, startIndex)) {
+            const match = text.match(this.labels.cashRowPattern);
+            if (!match) {
+                logger.error({ date, text }, 'Could not parse money market fund transaction');
+                continue;
+            }
+
+            const [, typeAndFund, isin, shares, price, amount] = match;
+            const type = Object.keys(this.labels.cashTypes).find((t) => typeAndFund.startsWith(`${t} `)) ?? null;
+            if (!type) {
+                logger.error({ type: typeAndFund.split(/\s+/)[0] }, 'Unknown money market fund payment type detected');
+            }
+
+            transactions.push({
+                date,
+                type,
+                fund: type ? typeAndFund.slice(type.length).trim() : typeAndFund,
+                isin: isin ?? null,
+                shares: this.labels.parseAmount(shares) || 0,
+                price: this.labels.parseAmount(price) || 0,
+                amount: this.labels.parseAmount(amount) || 0,
+            });
+        }
+
+        return transactions;
+    }
+
+    /**
+     * Processes the KONTOÜBERSICHT chapter content, one row per product.
+     * A row can be wrapped over several lines, it ends with the fourth amount.
+     * @param lines - Array of text lines in the chapter
+     * @returns Array of account overview rows
+     */
+    processAccountOverview(lines: string[]): AccountOverviewRow[] {
+        this.useHeaderLocale(lines[0]);
+        const startIndex = lines[0] === this.labels.headers.account ? 1 : 0;
+
+        const rows: AccountOverviewRow[] = [];
+        let text = '';
+        for (const line of lines.slice(startIndex)) {
+            text = text ? `${text} ${line}` : line;
+
+            const moneyMatches = text.match(this.labels.moneyPattern) || [];
+            if (moneyMatches.length < 4) continue;
+
+            const [openingBalance, received, spent, closingBalance] = moneyMatches.slice(-4).map((m) => this.labels.parseAmount(m) || 0);
+            rows.push({
+                product: text.slice(0, text.indexOf(moneyMatches[moneyMatches.length - 4])).trim(),
+                openingBalance,
+                received,
+                spent,
+                closingBalance,
+            });
+            text = '';
+        }
+
+        return rows;
+    }
+
+    /**
+     * Checks the parsed rows of each product against the KONTOÜBERSICHT
+     * @returns One result per product of the overview
+     */
+    reconcile(result: ParsedPdfResult): ReconciliationResult[] {
+        const round = (value: number) => Math.round(value * 100) / 100;
+        const sum = (values: number[]) => round(values.reduce((total, value) => total + value, 0));
+        const { products, cashTypes } = this.labels;
+
+        return (result.accountOverview || []).map((row) => {
+            let received: number;
+            let spent: number;
+
+            if (row.product === products.cashAccount) {
+                received = sum((result.transactions || []).map((tx) => tx.received || 0));
+                spent = sum((result.transactions || []).map((tx) => tx.spent || 0));
+            } else if (row.product === products.moneyMarket) {
+                // Purchases are paid into the fund, sales are paid out of it
+                const cash = result.cashTransactions || [];
+                const isSale = (tx: ParsedPdfCashTransaction) => tx.type !== null && cashTypes[tx.type] === TransactionType.SELL;
+                received = sum(cash.filter((tx) => !isSale(tx)).map((tx) => tx.amount));
+                spent = sum(cash.filter(isSale).map((tx) => tx.amount));
+            } else {
+                logger.warn({ product: row.product }, 'Unknown product in account overview, comparing without parsed rows');
+                received = 0;
+                spent = 0;
+            }
+
+            const receivedDifference = round(received - row.received);
+            const spentDifference = round(spent - row.spent);
+            const difference = round(row.openingBalance + received - spent - row.closingBalance);
+            const reconciliation: ReconciliationResult = {
+                product: row.product,
+                passed: [receivedDifference, spentDifference, difference].every((d) => Math.abs(d) <= TradeRepublicPdfReader.BALANCE_EPSILON),
+                receivedDifference,
+                spentDifference,
+                difference,
+            };
+
+            if (reconciliation.passed) {
+                logger.info(`✅ ${row.product} reconciles with the account overview`);
+            } else {
+                logger.error({ ...reconciliation, overview: row }, `${row.product} does not reconcile with the account overview`);
+            }
+
+            return reconciliation;
+        });
+    }
+
+    /**
+     * Splits table lines into rows, each row starts with a date and continues until the next date
+     * @param lines - Array of text lines
+     * @param startIndex - Index of the first line after the table header
+     * @returns Date and joined text of each row
+     */
+    splitRows(lines: string[], startIndex: number = 0): { date: Date; text: string }[] {
+        const rows: { date: Date; text: string }[] = [];
         let i = startIndex;
 
         while (i < lines.length) {
@@ -303,19 +974,7 @@ export class TradeRepublicPdfReader extends BaseReader<ParsedPdfTransaction> {
                     j++;
                 }
 
-                // Join the rest and parse the single transaction for this date
-                const restText = restLines.join(' ');
-
-                // Parse the transaction for this date
-                const transaction = this.parseTransactionSegment(restText, date, ALL_TYPES, previousBalance);
-                if (transaction) {
-                    // Validate balance calculation
-                    this.validateBalance(transaction, previousBalance);
-
-                    transactions.push(transaction);
-                    previousBalance = transaction.balance;
-                }
-
+                rows.push({ date, text: restLines.join(' ') });
                 i = j;
                 continue;
             }
@@ -323,14 +982,15 @@ export class TradeRepublicPdfReader extends BaseReader<ParsedPdfTransaction> {
             i++;
         }
 
-        return transactions;
+        return rows;
     }
 
     /**
      * Tries to parse a date starting at the given index.
-     * Handles two cases:
+     * Handles three cases:
      * 1. Day, month, year on separate lines
      * 2. "Day Month" on one line, year at start of next line
+     * 3. "Day Month Year" at start of the line, as in the money market fund table
      *
      * @param lines - Array of text lines
      * @param index - Starting index to check
@@ -370,6 +1030,21 @@ export class TradeRepublicPdfReader extends BaseReader<ParsedPdfTransaction> {
             }
         }
 
+        // Case 3: "Day Month Year" followed by the row on the same line
+        if (currentParts.length > 3) {
+            const monthMatch = currentParts[1].match(TradeRepublicPdfReader.MONTH_PATTERN);
+            const yearMatch = currentParts[2].match(TradeRepublicPdfReader.YEAR_PATTERN);
+
+            // Descriptions can start with a number too, only accept known months here
+            if (monthMatch && yearMatch && this.findMonth(currentParts[1]) !== undefined) {
+                return {
+                    date: this.toJSDate(currentParts[2], currentParts[1], day),
+                    nextIndex: index + 1,
+                    restOfLine: currentParts.slice(3).join(' '),
+                };
+            }
+        }
+
         // Case 2: Day, month, year on separate lines (1 part per line)
         if (currentParts.length === 1 && index + 2 < lines.length) {
             const month = lines[index + 1]?.trim();
@@ -390,9 +1065,9 @@ export class TradeRepublicPdfReader extends BaseReader<ParsedPdfTransaction> {
     }
 
     /**
-     * Converts a German date string to a JavaScript Date object
+     * Converts a date string of any statement language to a JavaScript Date object
      * @param yearStr - Year string
-     * @param monthStr - Month string in German
+     * @param monthStr - Month string in German or English
      * @param dayStr - Day string
      * @returns JavaScript Date object
      */
@@ -400,14 +1075,18 @@ export class TradeRepublicPdfReader extends BaseReader<ParsedPdfTransaction> {
         const day = parseInt(dayStr, 10);
         const year = parseInt(yearStr, 10);
 
-        const month = TradeRepublicPdfReader.GERMAN_MONTHS[monthStr];
+        const month = this.findMonth(monthStr);
         if (month === undefined) {
-            throw new Error(`Unknown German month: ${monthStr}`);
+            throw new Error(`Unknown month: ${monthStr}`);
         }
 
         return new Date(year, month, day);
     }
 
+    private findMonth(monthStr: string): number | undefined {
+        return Object.values(TradeRepublicPdfReader.LABELS).map((labels) => labels.months[monthStr]).find((month) => month !== undefined);
+    }
+
     /**
      * Parses a single transaction segment
      * @returns Parsed transaction
@@ -418,7 +1097,7 @@ export class TradeRepublicPdfReader extends BaseReader<ParsedPdfTransaction> {
         allTypes: string[],
         previousBalance: number | null
     ): ParsedPdfTransaction {
-        const moneyMatches = segment.match(TradeRepublicPdfReader.MONEY_PATTERN) || [];
+        const moneyMatches = segment.match(this.labels.moneyPattern) || [];
 
         const transaction: ParsedPdfTransaction = {
             date,
@@ -432,8 +1111,8 @@ export class TradeRepublicPdfReader extends BaseReader<ParsedPdfTransaction> {
 
         if (moneyMatches.length >= 2) {
             // Extract the monetary values (last 2 matches are: amount and saldo)
-            transaction.balance = parseAmountEU(moneyMatches[moneyMatches.length - 1]) || 0;
-            const amount = parseAmountEU(moneyMatches[moneyMatches.length - 2]) || 0;
+            transaction.balance = this.labels.parseAmount(moneyMatches[moneyMatches.length - 1]) || 0;
+            const amount = this.labels.parseAmount(moneyMatches[moneyMatches.length - 2]) || 0;
 
             // Determine if this is ZAHLUNGSEINGANG or ZAHLUNGSAUSGANG by comparing saldo
             const isIncome = this.determineTransactionDirection(previousBalance, transaction.balance, transaction.type);
@@ -0,0 +1,94 @@
+import { TradeRepublicTaxReportReader } from './traderepublic-tax-report.ts';
+import { TransactionType, type Transaction } from '../transaction.ts';
+
+const TAX_REPORT = `TRADE REPUBLIC BANK GMBH BRUNNENSTRASSE 19-21 10119 BERLIN
+Max Mustermann
+JAHRESSTEUERBESCHEINIGUNG 2024
+für Privatkonten und/oder Privatdepots
+Kapitalerträge 1.234,56 EUR
+Gewinne aus Aktienveräußerungen 800,00 EUR
+Verluste aus Aktienveräußerungen -150,00 EUR
+Gewinne aus sonstigen Veräußerungen 320,00 EUR
+Verluste aus sonstigen Veräußerungen 0,00 EUR
+Dividenden 12,30 EUR
+Zinsen 12,34 EUR
+In Anspruch genommener Sparer-Pauschbetrag 1.000,00 EUR
+Kapitalertragsteuer 3,09 EUR
+Solidaritätszuschlag 0,17 EUR
+Kirchensteuer 0,00 EUR
+Summe der angerechneten ausländischen Steuer 0,35 EUR
+Summe der anrechenbaren noch nicht angerechneten ausländischen Steuer 0,00 EUR
+Trade Republic Bank GmbH www.traderepublic.com Sitz der Gesellschaft: Berlin`;
+
+const transaction = (tx: Partial<Transaction>): Transaction => ({
+    type: TransactionType.DIVIDEND,
+    currency: 'EUR',
+    fee: 0,
+    tax: 0,
+    ...tx,
+} as Transaction);
+
+describe('TradeRepublicTaxReportReader', () => {
+    const reader = new TradeRepublicTaxReportReader();
+
+    it('should extract the yearly totals', () => {
+        const report = reader.parse(TAX_REPORT);
+
+        expect(report).toEqual({
+            year: 2024,
+            gainsShares: 800,
+            lossesShares: 150,
+            gainsOther: 320,
+            lossesOther: 0,
+            dividends: 12.3,
+            interest: 12.34,
+            allowanceUsed: 1000,
+            capitalGainsTax: 3.09,
+            solidaritySurcharge: 0.17,
+            churchTax: 0,
+            creditedForeignTax: 0.35,
+            creditableForeignTax: 0,
+        });
+    });
+
+    it('should ignore documents that are not tax reports', () => {
+        expect(reader.parse('DIVIDENDE\nGESAMT 1,67 EUR')).toBeNull();
+    });
+
+    it('should compare the totals with the transactions of the same year', () => {
+        const report = reader.parse([TAX_REPORT])!;
+        const comparison = reader.compare(report, [
+            transaction({ date: new Date(2024, 4, 16), amount: 1.65, grossAmount: 2.3, withholdingTax: 0.35, capitalGainsTax: 0.27, solidaritySurcharge: 0.01 }),
+            transaction({ date: new Date(2024, 5, 27), amount: 10 }),
+            transaction({ type: TransactionType.INTEREST, date: new Date(2024, 6, 1), amount: 9.08, tax: 3.26, grossAmount: 12.34, capitalGainsTax: 3.09, solidaritySurcharge: 0.17 }),
+            // Other year
+            transaction({ type: TransactionType.INTEREST, date: new Date(2025, 0, 1), amount: 5 }),
+        ]);
+
+        expect(comparison).toEqual([
+            { field: 'dividends', report: 12.3, transactions: 12.3, difference: 0, matches: true },
+            { field: 'interest', report: 12.34, transactions: 12.34, difference: 0, matches: true },
+            { field: 'capitalGainsTax', report: 3.09, transactions: 3.36, difference: 0.27, matches: false },
+            { field: 'solidaritySurcharge', report: 0.17, transactions: 0.18, difference: 0.01, matches: true },
+            { field: 'churchTax', report: 0, transactions: 0, difference: 0, matches: true },
+            { field: 'creditedForeignTax', report: 0.35, transactions: 0.35, difference: 0, matches: true },
+        ]);
+    });
+
+    it('should not compare totals that are missing in the transactions', () => {
+        const report = reader.parse([TAX_REPORT])!;
+        // Transactions of the WebSocket reader have no itemized taxes
+        const comparison = reader.compare(report, [
+            transaction({ date: new Date(2024, 4, 16), amount: 12.3 }),
+        ]);
+
+        expect(comparison.filter((c) => c.matches === null).map((c) => c.field)).toEqual([
+            'interest',
+            'capitalGainsTax',
+            'solidaritySurcharge',
+            'creditedForeignTax',
+        ]);
+        expect(comparison.find((c) => c.field === 'churchTax')!.matches).toBe(true);
+        expect(comparison.some((c) => c.matches === false)).toBe(false);
+    });
+});
@@ -0,0 +1,152 @@
+import { logger } from '../utils/logger.ts';
+import { parseAmountEU } from '../utils/parse.ts';
+import { TransactionType, type Transaction } from "../transaction.ts";
+import { NUMBER } from './traderepublic-document.ts';
+
+/**
+ * Yearly totals of the Trade Republic tax report, all amounts in EUR and positive
+ */
+export interface TaxReport {
+    year: number;
+    /** Realized gains from selling shares */
+    gainsShares?: number;
+    /** Realized losses from selling shares */
+    lossesShares?: number;
+    /** Realized gains from selling other securities (ETFs, bonds, derivatives) */
+    gainsOther?: number;
+    /** Realized losses from selling other securities */
+    lossesOther?: number;
+    dividends?: number;
+    interest?: number;
+    /** Withheld Kapitalertragsteuer */
+    capitalGainsTax?: number;
+    solidaritySurcharge?: number;
+    churchTax?: number;
+    /** Foreign withholding tax credited against the Kapitalertragsteuer */
+    creditedForeignTax?: number;
+    /** Foreign withholding tax that could not be credited yet */
+    creditableForeignTax?: number;
+    /** Used Freistellungsauftrag (Sparer-Pauschbetrag) */
+    allowanceUsed?: number;
+}
+
+type TaxReportField = Exclude<keyof TaxReport, 'year'>;
+
+/**
+ * Total of the tax report compared with the exported transactions of the same year
+ */
+export interface TaxReportComparison {
+    field: TaxReportField;
+    report: number;
+    /** Null if the transactions do not contain the values to compare with */
+    transactions: number | null;
+    difference: number | null;
+    /** Null if the total is not comparable, because no transaction has the values */
+    matches: boolean | null;
+}
+
+/**
+ * Reads the Trade Republic annual tax report (Jahressteuerbescheinigung, Steuerreport).
+ * Unlike the other PDF readers it does not produce transactions, but the yearly totals that are filed with the taxes.
+ */
+export class TradeRepublicTaxReportReader {
+    // Patterns
+    static YEAR_PATTERN = /(?:JAHRESSTEUERBESCHEINIGUNG|STEUERBESCHEINIGUNG|STEUERREPORT)\D*(\d{4})/i;
+    static AMOUNT_PATTERN = new RegExp(`^(.+?):? (${NUMBER})(?: EUR| €)?$`);
+    static EPSILON = 0.01;
+
+    // Lines of the report, matched by prefix. The first line of a field is used, later ones are subtotals.
+    static LABELS: Record<TaxReportField, string[]> = {
+        gainsShares: ['Gewinne aus Aktienveräußerungen', 'Gewinn aus Aktienveräußerungen', 'Veräußerungsgewinne Aktien'],
+        lossesShares: ['Verluste aus Aktienveräußerungen', 'Verlust aus Aktienveräußerungen', 'Veräußerungsverluste Aktien'],
+        gainsOther: ['Gewinne aus sonstigen Veräußerungen', 'Sonstige Veräußerungsgewinne', 'Sonstige Gewinne'],
+        lossesOther: ['Verluste aus sonstigen Veräußerungen', 'Sonstige Veräußerungsverluste', 'Sonstige Verluste'],
+        dividends: ['Dividenden', 'Ausschüttungen'],
+        interest: ['Zinsen', 'Zinserträge'],
+        capitalGainsTax: ['Kapitalertragsteuer', 'Kapitalertragssteuer'],
+        solidaritySurcharge: ['Solidaritätszuschlag'],
+        churchTax: ['Kirchensteuer'],
+        creditedForeignTax: ['Summe der angerechneten ausländischen Steuer', 'Angerechnete ausländische Steuer', 'Angerechnete Quellensteuer'],
+        creditableForeignTax: ['Summe der anrechenbaren noch nicht angerechneten ausländischen Steuer', 'Anrechenbare ausländische Steuer', 'Anrechenbare Quellensteuer'],
+        allowanceUsed: ['In Anspruch genommener Sparer-Pauschbetrag', 'Genutzter Freistellungsauftrag', 'Freistellungsauftrag'],
+    };
+
+    /**
+     * Parse the text of a tax report
+     * @param pages - Single page text or array of page texts
+     * @returns Yearly totals or null if the document is not a tax report
+     */
+    parse(pages: string | string[]): TaxReport | null {
+        const lines = (Array.isArray(pages) ? pages : [pages])
+            .flatMap((page) => page.split('\n'))
+            .map((line) => line.trim())
+            .filter((line) => line.length > 0);
+
+        const year = lines.join(' ').match(TradeRepublicTaxReportReader.YEAR_PATTERN);
+        if (!year) {
+            logger.error('Not a tax report, title with the year is missing');
+            return null;
+        }
+
+        const report: TaxReport = { year: +year[1] };
+        const fields = Object.entries(TradeRepublicTaxReportReader.LABELS) as [TaxReportField, string[]][];
+        for (const line of lines) {
+            const match = line.match(TradeRepublicTaxReportReader.AMOUNT_PATTERN);
+            if (!match) continue;
+
+            const [, label, amount] = match;
+            const field = fields.find(([, labels]) => labels.some((l) => label.startsWith(l)))?.[0];
+            if (field && report[field] === undefined) {
+                // Losses are printed negative in some reports
+                report[field] = Math.abs(parseAmountEU(amount)!);
+            }
+        }
+
+        return report;
+    }
+
+    /**
+     * Compare the totals of the report with the transactions of the same year.
+     * Realized gains and losses need the cost basis of each sale and are not compared.
+     * @param report - Parsed tax report
+     * @param transactions - Exported transactions, of any year
+     * @returns One comparison per total that is in the report
+     */
+    compare(report: TaxReport, transactions: Transaction[]): TaxReportComparison[] {
+        const ofYear = transactions.filter((tx) => tx.date && new Date(tx.date).getFullYear() === report.year);
+        const round = (value: number) => Math.round(value * 100) / 100;
+        // Values are only comparable if at least one transaction has them, e.g. itemized taxes of dividend notices
+        const sum = (txs: Transaction[], value: (tx: Transaction) => number | undefined): number | null => {
+            const values = txs.map(value).filter((v): v is number => v !== undefined);
+            return values.length > 0 ? round(values.reduce((total, v) => total + v, 0)) : null;
+        };
+        const gross = (tx: Transaction) => tx.grossAmount ?? (tx.amount === undefined ? undefined : tx.amount + (tx.tax || 0) + (tx.fee || 0));
+
+        const totals: Partial<Record<TaxReportField, number | null>> = {
+            dividends: sum(ofYear.filter((tx) => tx.type === TransactionType.DIVIDEND), gross),
+            interest: sum(ofYear.filter((tx) => tx.type === TransactionType.INTEREST), gross),
+            capitalGainsTax: sum(ofYear, (tx) => tx.capitalGainsTax),
+            solidaritySurcharge: sum(ofYear, (tx) => tx.solidaritySurcharge),
+            churchTax: sum(ofYear, (tx) => tx.churchTax),
+            creditedForeignTax: sum(ofYear, (tx) => tx.withholdingTax),
+        };
+        // Foreign tax that was not credited yet was withheld all the same
+        const foreignTax = report.creditedForeignTax === undefined ? undefined : report.creditedForeignTax + (report.creditableForeignTax || 0);
+
+        return (Object.keys(totals) as TaxReportField[])
+            .map((field) => ({ field, value: field === 'creditedForeignTax' ? foreignTax : report[field] }))
+            .filter((entry): entry is { field: TaxReportField; value: number } => entry.value !== undefined)
+            .map(({ field, value }) => {
+                // A zero total of the report matches the absence of transactions, e.g. no church tax
+                const total = totals[field] ?? (round(value) === 0 ? 0 : null);
+                const difference = total === null ? null : round(total - value);
+                return {
+                    field,
+                    report: round(value),
+                    transactions: total,
+                    difference,
+                    matches: difference === null ? null : Math.abs(difference) <= TradeRepublicTaxReportReader.EPSILON,
+                };
+            });
+    }
+}
@@ -0,0 +1,111 @@
+import { TradeRepublicTradePdfReader } from './traderepublic-trade-pdf.ts';
+import { TransactionType, validateTransaction } from '../transaction.ts';
+
+const BUY_CONFIRMATION = `TRADE REPUBLIC BANK GMBH BRUNNENSTRASSE 19-21 10119 BERLIN
+Max Mustermann
+Musterstraße 1
+12345 Stadt
+DATUM 15.06.2025
+ORDER 1a2b-3c4d
+AUSFÜHRUNG 5e6f-7a8b
+DEPOT 1234567890
+WERTPAPIERABRECHNUNG
+ÜBERSICHT
+Limit-Order Kauf am 15.06.2025, um 10:30 Uhr an der Lang & Schwarz Exchange. Der Kontrahent der Transaktion ist Lang & Schwarz
+TradeCenter AG & Co. KG.
+POSITION ANZAHL PREIS BETRAG
+iShares Core MSCI World USD
+(Acc)
+ISIN: IE00B4L5Y983
+10,5 Stk. 82,34 EUR 864,57 EUR
+GESAMT 864,57 EUR
+ABRECHNUNG
+POSITION BETRAG
+Fremdkostenzuschlag -1,00 EUR
+GESAMT -865,57 EUR
+BUCHUNG
+VERRECHNUNGSKONTO VALUTA BETRAG
+DE00000000000000000000 17.06.2025 -865,57 EUR
+Trade Republic Bank GmbH www.traderepublic.com Sitz der Gesellschaft: Berlin`;
+
+const SELL_CONFIRMATION = `DATUM 03.02.2026
+AUSFÜHRUNG 9c0d-1e2f
+WERTPAPIERABRECHNUNG
+ÜBERSICHT
+Market-Order Verkauf am 03.02.2026, um 09:05 Uhr an der LS Exchange.
+POSITION ANZAHL PREIS BETRAG
+Apple Inc.
+ISIN: US0378331005
+5 Stk. 210,00 EUR 1.050,00 EUR
+GESAMT 1.050,00 EUR
+ABRECHNUNG
+POSITION BETRAG
+Kapitalertragssteuer -20,00 EUR
+Solidaritätszuschlag -1,10 EUR
+Fremdkostenzuschlag -1,00 EUR
+GESAMT 1.027,90 EUR
+BUCHUNG
+VERRECHNUNGSKONTO VALUTA BETRAG
+DE00000000000000000000 05.02.2026 1.027,90 EUR`;
+
+const SAVINGS_PLAN_CONFIRMATION = `WERTPAPIERABRECHNUNG SPARPLAN
+WERTPAPIERABRECHNUNG
+Sparplanausführung am 02.06.2025 an der Lang & Schwarz Exchange.
+POSITION ANZAHL PREIS BETRAG
+Vanguard FTSE All-World U.ETF
+ISIN: IE00BK5BQT80
+0,389478 Stk. 128,37 EUR 50,00 EUR
+GESAMT 50,00 EUR`;
+
+describe('TradeRepublicTradePdfReader', () => {
+    const reader = new TradeRepublicTradePdfReader();
+
+    it('should parse a buy confirmation into a complete transaction', async () => {
+        const [tx] = await reader.readTransactions({ pages: BUY_CONFIRMATION });
+
+        expect(tx.id).toBe('5e6f-7a8b');
+        expect(tx.type).toBe(TransactionType.BUY);
+        expect(tx.isin).toBe('IE00B4L5Y983');
+        expect(tx.name).toBe('iShares Core MSCI World USD (Acc)');
+        expect(tx.shares).toBe(10.5);
+        expect(tx.price).toBe(82.34);
+        expect(tx.amount).toBe(-865.57);
+        expect(tx.fee).toBe(1);
+        expect(tx.tax).toBe(0);
+        expect(tx.currency).toBe('EUR');
+        expect(tx.date).toEqual(new Date(2025, 5, 15, 10, 30));
+        expect(tx.comment).toBe('Limit-Order at Lang & Schwarz Exchange');
+        expect(validateTransaction(tx)).toBe(true);
+    });
+
+    it('should split taxes and fees of a sell confirmation', async () => {
+        const [tx] = await reader.readTransactions({ pages: [SELL_CONFIRMATION] });
+
+        expect(tx.type).toBe(TransactionType.SELL);
+        expect(tx.isin).toBe('US0378331005');
+        expect(tx.shares).toBe(5);
+        expect(tx.price).toBe(210);
+        expect(tx.amount).toBe(1027.9);
+        expect(tx.tax).toBe(21.1);
+        expect(tx.fee).toBe(1);
+        expect(tx.date).toEqual(new Date(2026, 1, 3, 9, 5));
+    });
+
+    it('should parse a savings plan execution without booking section', () => {
+        const parsed = reader.parse(SAVINGS_PLAN_CONFIRMATION);
+
+        expect(parsed).not.toBeNull();
+        expect(parsed!.orderType).toBe('Sparplanausführung');
+        expect(parsed!.side).toBe('Kauf');
+        expect(parsed!.venue).toBe('Lang & Schwarz Exchange');
+        expect(parsed!.shares).toBe(0.389478);
+        expect(parsed!.total).toBe(-50);
+        expect(parsed!.executedAt).toEqual(new Date(2025, 5, 2));
+    });
+
+    it('should ignore documents that are not trade confirmations', async () => {
+        const transactions = await reader.readTransactions({ pages: 'KONTOÜBERSICHT\nUMSATZÜBERSICHT' });
+
+        expect(transactions).toEqual([]);
+    });
+});
@@ -0,0 +1,119 @@
+import { logger } from '../utils/logger.ts';
+import { TransactionType, type Transaction } from "../transaction.ts";
+import { TradeRepublicDocumentReader } from './traderepublic-document.ts';
+import { costs, findValue, isTax, itemizeTaxes, type SettlementItem } from './settlement.ts';
+
+/**
+ * Parsed trade confirmation (Wertpapierabrechnung)
+ */
+interface ParsedTradeConfirmation {
+    /** Execution id (AUSFÜHRUNG) */
+    executionId?: string;
+    /** Order id (ORDER) */
+    orderId?: string;
+    /** Order type as printed, e.g. "Market-Order", "Limit-Order", "Sparplanausführung" */
+    orderType: string;
+    side: 'Kauf' | 'Verkauf';
+    executedAt: Date;
+    venue?: string;
+    name: string;
+    isin: string;
+    shares: number;
+    price: number;
+    priceCurrency: string;
+    /** Market value of the position (BETRAG of the POSITION table) */
+    marketValue: number;
+    /** Fees and taxes of the ABRECHNUNG section, negative when charged */
+    items: SettlementItem[];
+    /** Amount booked on the cash account, negative for buys */
+    total: number;
+    currency: string;
+}
+
+/**
+ * Reads Trade Republic trade confirmations (Wertpapierabrechnung), one PDF per executed order.
+ * Unlike the monthly account statement, they contain the ISIN, shares, price, fees and taxes of the trade.
+ */
+export class TradeRepublicTradePdfReader extends TradeRepublicDocumentReader<ParsedTradeConfirmation> {
+    // Patterns
+    static EXECUTION_PATTERN = /(Market-Order|Limit-Order|Stop-Market-Order|Stop-Limit-Order|Sparplanausführung|Saveback-Ausführung|Round-up-Ausführung)(?: (Kauf|Verkauf))? am (\d{2})\.(\d{2})\.(\d{4})(?:,? um (\d{2}):(\d{2})(?::(\d{2}))? Uhr)?(?: an der (.+?))?\.(?: |$)/;
+    static EXECUTION_ID_PATTERN = /^AUSFÜHRUNG\s+(\S+)$/;
+    static ORDER_ID_PATTERN = /^ORDER\s+(\S+)$/;
+
+    // Section headers
+    static TITLE = 'WERTPAPIERABRECHNUNG';
+    static HEADER_POSITION = 'POSITION ANZAHL PREIS BETRAG';
+
+    constructor() {
+        super('trade-republic-trade-pdf');
+    }
+
+    parseTransaction(record: ParsedTradeConfirmation): Transaction | null {
+        const taxes = record.items.filter((item) => isTax(item.label));
+        const fees = record.items.filter((item) => !isTax(item.label));
+
+        return {
+            id: record.executionId,
+            type: record.side === 'Verkauf' ? TransactionType.SELL : TransactionType.BUY,
+            isin: record.isin,
+            name: record.name,
+            shares: record.shares,
+            price: record.price,
+            amount: record.total,
+            fee: costs(fees),
+            tax: costs(taxes),
+            ...itemizeTaxes(taxes),
+            date: record.executedAt,
+            currency: record.currency,
+            comment: record.venue ? `${record.orderType} at ${record.venue}` : record.orderType,
+            source: this.name,
+        };
+    }
+
+    /**
+     * Parse the text of a trade confirmation
+     * @param pages - Single page text or array of page texts
+     * @returns Parsed trade or null if the document is not a trade confirmation
+     */
+    parse(pages: string | string[]): ParsedTradeConfirmation | null {
+        const lines = this.toLines(pages);
+
+        if (!lines.includes(TradeRepublicTradePdfReader.TITLE)) {
+            logger.error('Not a trade confirmation, WERTPAPIERABRECHNUNG is missing');
+            return null;
+        }
+
+        const execution = lines.join(' ').match(TradeRepublicTradePdfReader.EXECUTION_PATTERN);
+        const position = this.parsePosition(lines, TradeRepublicTradePdfReader.HEADER_POSITION);
+        if (!execution || !position?.isin || position.shares === undefined) {
+            logger.error({ execution: !!execution, position: !!position }, 'Could not parse trade confirmation');
+            return null;
+        }
+
+        const [, orderType, side, day, month, year, hours, minutes, seconds, venue] = execution;
+        const items = this.parseSettlementItems(lines);
+        const booking = this.parseBooking(lines);
+
+        // Without the booking section, derive the booked amount from the position and its costs
+        const itemsTotal = items.reduce((total, item) => total + item.amount, 0);
+        const total = booking?.amount ?? Math.round(((side === 'Verkauf' ? position.marketValue : -position.marketValue) + itemsTotal) * 100) / 100;
+
+        return {
+            executionId: findValue(lines, TradeRepublicTradePdfReader.EXECUTION_ID_PATTERN),
+            orderId: findValue(lines, TradeRepublicTradePdfReader.ORDER_ID_PATTERN),
+            orderType,
+            side: side === 'Verkauf' ? 'Verkauf' : 'Kauf',
+            executedAt: new Date(+year, +month - 1, +day, +(hours ?? 0), +(minutes ?? 0), +(seconds ?? 0)),
+            venue,
+            name: position.name,
+            isin: position.isin,
+            shares: position.shares,
+            price: position.price!,
+            priceCurrency: position.priceCurrency!,
+            marketValue: position.marketValue,
+            items,
+            total,
+            currency: booking?.currency ?? position.currency,
+        };
+    }
+}
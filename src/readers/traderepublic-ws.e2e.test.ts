@@ -0,0 +1,142 @@
+import { readFileSync } from 'fs';
+import { TradeRepublicWsReader, type TradeRepublicLocale } from './traderepublic-ws.ts';
+import { TradeRepublicMockServer, type RecordedSession } from './traderepublic-ws.mock.ts';
+import { SessionStore } from '../services/session.ts';
+import { TransactionType } from '../transaction.ts';
+
+function loadSession(locale: TradeRepublicLocale): RecordedSession {
+    return JSON.parse(readFileSync(new URL(`./__fixtures__/traderepublic-ws-session.${locale}.json`, import.meta.url), 'utf-8'));
+}
+
+const SESSION = loadSession('en');
+
+const TEST_SESSION_FILE = './test-tr-session.json';
+
+describe('TradeRepublicWsReader against a mock server', () => {
+    let server: TradeRepublicMockServer;
+    let reader: TradeRepublicWsReader;
+
+    async function startServer(session: RecordedSession = SESSION, locale?: TradeRepublicLocale): Promise<void> {
+        server = new TradeRepublicMockServer(session);
+        const endpoints = await server.start();
+        reader = new TradeRepublicWsReader({
+            ...endpoints,
+            locale,
+            prompt: async (message) => (message.includes('PIN') ? session.login.pin : session.login.code),
+        });
+    }
+
+    afterEach(async () => {
+        await server.stop();
+        new SessionStore(TEST_SESSION_FILE).clear();
+    });
+
+    test('logs in with 2FA and reads the whole timeline', async () => {
+        await startServer({ ...SESSION, rateLimitedLogins: 1 });
+
+        const transactions = await reader.readTransactions({ phone: SESSION.login.phoneNumber });
+
+        expect(transactions.map((tx) => tx.type)).toEqual([TransactionType.BUY, TransactionType.DEPOSIT, TransactionType.DIVIDEND]);
+        expect(transactions[0].isin).toBe('IE0000000000');
+        expect(transactions[0].shares).toBe(2);
+        expect(transactions[0].price).toBe(272);
+        expect(transactions[0].fee).toBe(1);
+        expect(transactions[1].amount).toBe(1000);
+        expect(transactions[2].isin).toBe('US0000000001');
+        expect(transactions[2].tax).toBe(0.3);
+
+        // The first login attempt is rate limited and retried
+        expect(server.requests.filter((r) => r === 'POST /api/v1/auth/web/login')).toHaveLength(2);
+        expect(server.requests).toContain(`POST /api/v1/auth/web/login/${SESSION.login.processId}/${SESSION.login.code}`);
+    });
+
+    test.each<TradeRepublicLocale>(['en', 'de'])('reads the same transactions from %s labels', async (locale: TradeRepublicLocale) => {
+        await startServer(loadSession(locale), locale);
+
+        const transactions = await reader.readTransactions({ token: SESSION.login.session });
+
+        expect(server.messages[0]).toContain(`"locale":"${locale}"`);
+        expect(transactions.map(({ type, isin, shares, price, fee, tax, amount, currency }) => ({ type, isin, shares, price, fee, tax, amount, currency }))).toEqual([
+            { type: TransactionType.BUY, isin: 'IE0000000000', shares: 2, price: 272, fee: 1, tax: 0, amount: -545, currency: 'EUR' },
+            { type: TransactionType.DEPOSIT, isin: undefined, shares: 0, price: 0, fee: 0, tax: 0, amount: 1000, currency: 'EUR' },
+            { type: TransactionType.DIVIDEND, isin: 'US0000000001', shares: 10, price: 0, fee: 0, tax: 0.3, amount: 1.71, currency: 'EUR' },
+        ]);
+    });
+
+    test('sends the connect handshake and unsubscribes every subscription', async () => {
+        await startServer();
+
+        await reader.readTransactions({ token: SESSION.login.session });
+        // the last unsub is sent right before the socket closes
+        await new Promise((resolve) => setTimeout(resolve, 100));
+
+        expect(server.messages[0]).toMatch(/^connect 33 \{/);
+        const subs = server.messages.filter((m) => m.startsWith('sub ')).map((m) => m.split(' ')[1]);
+        const unsubs = server.messages.filter((m) => m.startsWith('unsub ')).map((m) => m.split(' ')[1]);
+        expect(subs).toHaveLength(6);
+        expect(unsubs.sort()).toEqual(subs.sort());
+        expect(server.requests).toHaveLength(0);
+    });
+
+    test('stops paginating at an already exported transaction', async () => {
+        await startServer();
+
+        const transactions = await reader.readTransactions({
+            token: SESSION.login.session,
+            knownIds: ['00000102-0000-0000-0000-000000000000'],
+        });
+
+        expect(transactions.map((tx) => tx.id)).toEqual(['00000101-0000-0000-0000-000000000000']);
+        expect(server.messages.some((m) => m.includes('cursor-1'))).toBe(false);
+    });
+
+    test('keeps paginating past exported transactions until the pending ones are fetched again', async () => {
+        await startServer();
+
+        const transactions = await reader.readTransactions({
+            token: SESSION.login.session,
+            knownIds: ['00000102-0000-0000-0000-000000000000', '00000103-0000-0000-0000-000000000000'],
+            pendingIds: ['00000103-0000-0000-0000-000000000000'],
+        });
+
+        expect(transactions.map((tx) => tx.id)).toEqual(['00000101-0000-0000-0000-000000000000', '00000103-0000-0000-0000-000000000000']);
+    });
+
+    test('reuses a stored session instead of logging in again', async () => {
+        await startServer();
+        const sessionStore = new SessionStore(TEST_SESSION_FILE);
+
+        await reader.readTransactions({ phone: SESSION.login.phoneNumber, sessionStore });
+        server.requests.length = 0;
+        const transactions = await reader.readTransactions({ phone: SESSION.login.phoneNumber, sessionStore });
+
+        expect(transactions).toHaveLength(3);
+        expect(server.requests).toEqual(['GET /api/v1/auth/web/session']);
+    });
+
+    test('fails on error frames', async () => {
+        await startServer({
+            ...SESSION,
+            subscriptions: SESSION.subscriptions.map((s) =>
+                s.request.id === '00000102-0000-0000-0000-000000000000' ? { request: s.request, error: { errors: [{ errorCode: 'NOT_FOUND' }] } } : s
+            ),
+        });
+
+        await expect(reader.readTransactions({ token: SESSION.login.session })).rejects.toThrow('Subscription error');
+    });
+
+    test('rejects an invalid token', async () => {
+        await startServer();
+
+        await expect(reader.readTransactions({ token: 'invalid' })).rejects.toThrow('AUTHENTICATION_ERROR');
+    });
+
+    test('reconnects and repeats the current page when the connection drops', async () => {
+        await startServer({ ...SESSION, dropConnectionAfter: 3 });
+
+        const transactions = await reader.readTransactions({ token: SESSION.login.session });
+
+        expect(transactions).toHaveLength(3);
+        expect(server.messages.filter((m) => m.startsWith('connect '))).toHaveLength(2);
+    }, 15000);
+});
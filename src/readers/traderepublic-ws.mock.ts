@@ -0,0 +1,178 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'http';
+import { type AddressInfo } from 'net';
+import { WebSocketServer, type WebSocket } from 'ws';
+
+/**
+ * Recorded Trade Republic session, replayed by TradeRepublicMockServer
+ */
+export interface RecordedSession {
+    login: {
+        phoneNumber: string;
+        pin: string;
+        processId: string;
+        countdownInSeconds: number;
+        code: string;
+        session: string;
+        refresh: string;
+    };
+    /** Number of login attempts answered with TOO_MANY_REQUESTS before the login succeeds */
+    rateLimitedLogins?: number;
+    /** Close the socket after this many subscriptions, once, to simulate a dropped connection */
+    dropConnectionAfter?: number;
+    subscriptions: RecordedSubscription[];
+}
+
+export interface RecordedSubscription {
+    /** Payload of the sub message without the token, matched exactly */
+    request: Record<string, unknown>;
+    /** Payload of the A frame */
+    response?: unknown;
+    /** Payload of the E frame */
+    error?: unknown;
+}
+
+/**
+ * Local stand-in for the Trade Republic HTTP login and WebSocket API.
+ * Answers login requests and subscriptions from a recorded session, so readers can be tested without network access.
+ */
+export class TradeRepublicMockServer {
+    /** Raw messages received on all sockets */
+    public readonly messages: string[] = [];
+    /** Endpoints of HTTP requests received, e.g. "POST /api/v1/auth/web/login" */
+    public readonly requests: string[] = [];
+
+    private readonly session: RecordedSession;
+    private server: Server | null = null;
+    private wss: WebSocketServer | null = null;
+    private rateLimitedLogins: number;
+    private subscriptionCount: number = 0;
+    private dropped: boolean = false;
+
+    constructor(session: RecordedSession) {
+        this.session = session;
+        this.rateLimitedLogins = session.rateLimitedLogins ?? 0;
+    }
+
+    /**
+     * Start listening on a random local port
+     * @returns Endpoints to pass to TradeRepublicWsReader
+     */
+    async start(): Promise<{ apiBase: string; wsUrl: string }> {
+        this.server = createServer((req, res) => this.handleRequest(req, res));
+        this.wss = new WebSocketServer({ server: this.server });
+        this.wss.on('connection', (socket) => this.handleConnection(socket));
+
+        await new Promise<void>((resolve) => this.server!.listen(0, '127.0.0.1', resolve));
+        const { port } = this.server.address() as AddressInfo;
+        return { apiBase: `http://127.0.0.1:${port}`, wsUrl: `ws://127.0.0.1:${port}` };
+    }
+
+    async stop(): Promise<void> {
+        for (const client of this.wss?.clients || []) {
+            client.terminate();
+        }
+        await new Promise<void>((resolve) => this.wss ? this.wss.close(() => resolve()) : resolve());
+        await new Promise<void>((resolve) => this.server ? this.server.close(() => resolve()) : resolve());
+    }
+
+    private handleRequest(req: IncomingMessage, res: ServerResponse): void {
+        const { login } = this.session;
+        const url = req.url || '';
+        this.requests.push(`${req.method} ${url}`);
+
+        let body = '';
+        req.on('data', (chunk) => (body += chunk));
+        req.on('end', () => {
+            if (req.method === 'POST' && url === '/api/v1/auth/web/login') {
+                if (this.rateLimitedLogins > 0) {
+                    this.rateLimitedLogins--;
+                    return this.json(res, 429, {
+                        errors: [{ errorCode: 'TOO_MANY_REQUESTS', meta: { _meta_type: 'RetryMeta', nextAttemptInSeconds: 0 } }],
+                    });
+                }
+
+                const { phoneNumber, pin } = JSON.parse(body || '{}');
+                if (phoneNumber !== login.phoneNumber || pin !== login.pin) {
+                    return this.json(res, 401, { errors: [{ errorCode: 'INVALID_CREDENTIALS' }] });
+                }
+                return this.json(res, 200, { processId: login.processId, countdownInSeconds: login.countdownInSeconds, '2fa': 'SMS' });
+            }
+
+            if (req.method === 'POST' && url === `/api/v1/auth/web/login/${login.processId}/resend`) {
+                return this.json(res, 200, {});
+            }
+
+            if (req.method === 'POST' && url === `/api/v1/auth/web/login/${login.processId}/${login.code}`) {
+                res.setHeader('Set-Cookie', [
+                    `tr_session=${login.session}; Path=/; HttpOnly; Secure`,
+                    `tr_refresh=${login.refresh}; Path=/; HttpOnly; Secure`,
+                ]);
+                return this.json(res, 200, {});
+            }
+
+            if (req.method === 'GET' && url === '/api/v1/auth/web/session') {
+                if (!req.headers.cookie?.includes(`tr_refresh=${login.refresh}`)) {
+                    return this.json(res, 401, { errors: [{ errorCode: 'UNAUTHORIZED' }] });
+                }
+                res.setHeader('Set-Cookie', [`tr_session=${login.session}; Path=/; HttpOnly; Secure`]);
+                return this.json(res, 200, {});
+            }
+
+            this.json(res, 404, { errors: [{ errorCode: 'NOT_FOUND' }] });
+        });
+    }
+
+    private json(res: ServerResponse, status: number, body: unknown): void {
+        res.writeHead(status, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(body));
+    }
+
+    private handleConnection(socket: WebSocket): void {
+        socket.on('message', (data: Buffer) => {
+            const message = data.toString();
+            this.messages.push(message);
+
+            if (message.startsWith('connect ')) {
+                socket.send('connected');
+                return;
+            }
+
+            const unsub = message.match(/^unsub (\d+)$/);
+            if (unsub) {
+                socket.send(`${unsub[1]} C`);
+                return;
+            }
+
+            const sub = message.match(/^sub (\d+) ([\s\S]*)$/);
+            if (!sub) return;
+
+            this.subscriptionCount++;
+            if (!this.dropped && this.subscriptionCount === this.session.dropConnectionAfter) {
+                this.dropped = true;
+                socket.terminate();
+                return;
+            }
+
+            const [, id, json] = sub;
+            const { token, ...request } = JSON.parse(json);
+            if (token !== this.session.login.session) {
+                socket.send(`${id} E ${JSON.stringify({ errors: [{ errorCode: 'AUTHENTICATION_ERROR' }] })}`);
+                return;
+            }
+
+            const recorded = this.session.subscriptions.find((s) => this.matches(s.request, request));
+            if (!recorded) {
+                socket.send(`${id} E ${JSON.stringify({ errors: [{ errorCode: 'NOT_FOUND', request }] })}`);
+            } else if (recorded.error !== undefined) {
+                socket.send(`${id} E ${JSON.stringify(recorded.error)}`);
+            } else {
+                socket.send(`${id} A ${JSON.stringify(recorded.response)}`);
+            }
+        });
+    }
+
+    private matches(recorded: Record<string, unknown>, request: Record<string, unknown>): boolean {
+        const keys = Object.keys(request);
+        return keys.length === Object.keys(recorded).length && keys.every((key) => JSON.stringify(recorded[key]) === JSON.stringify(request[key]));
+    }
+}
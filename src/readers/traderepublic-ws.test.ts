@@ -1,5 +1,10 @@
-import { TradeRepublicWsReader } from './traderepublic-ws.ts';
+import { applyDelta, TradeRepublicWsReader } from './traderepublic-ws.ts';
 import { AssetType, TransactionType } from '../transaction.ts';
+import { type AddressInfo } from 'net';
+import { WebSocketServer } from 'ws';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
 
 describe('TradeRepublicWsReader', () => {
     const reader = new TradeRepublicWsReader();
@@ -115,4 +120,327 @@ describe('TradeRepublicWsReader', () => {
             expect(result!.source).toBe('trade-republic-ws');
         });
     });
+
+    describe('documents', () => {
+        const raw = {
+            id: '00000003-0000-0000-0000-000000000000',
+            timestamp: '2024-02-14T10:00:00.000+0000',
+            title: 'Mock Stock',
+            subtitle: 'Buy Order',
+            amount: { currency: 'EUR', value: -100, fractionDigits: 2 },
+            status: 'EXECUTED',
+            sections: [
+                { title: 'You invested €100.00', data: { icon: 'logos/US0378331005/v2' }, type: 'header' },
+                {
+                    title: 'Documents',
+                    data: [
+                        { title: 'Abrechnung', detail: '14.02.2024', id: 'doc-1', action: { type: 'browserModal', payload: 'https://example.com/doc-1.pdf' } },
+                        { title: 'Kosteninformation', detail: '14.02.2024', id: 'doc-2', action: { type: 'browserModal', payload: 'https://example.com/doc-2.pdf' } },
+                    ],
+                    type: 'documents',
+                },
+            ],
+        };
+
+        it('should extract document links from the documents section', () => {
+            expect(reader.extractDocuments(raw)).toEqual([
+                { title: 'Abrechnung', url: 'https://example.com/doc-1.pdf' },
+                { title: 'Kosteninformation', url: 'https://example.com/doc-2.pdf' },
+            ]);
+        });
+
+        it('should keep the documents folder in the transaction', () => {
+            const result = reader.parseTransaction({ ...raw, documentsPath: 'documents/00000003-0000-0000-0000-000000000000' });
+
+            expect(result!.documents).toBe('documents/00000003-0000-0000-0000-000000000000');
+        });
+    });
+
+    describe('savings plans', () => {
+        it('should keep the savings plan of an execution in the transaction', () => {
+            const raw = {
+                id: '00000004-0000-0000-0000-000000000000',
+                timestamp: '2024-03-04T10:00:00.000+0000',
+                title: 'iShares Core MSCI World',
+                subtitle: 'Saving executed',
+                amount: { currency: 'EUR', value: -50, fractionDigits: 2 },
+                status: 'EXECUTED',
+                savingsPlanId: 'plan-001',
+                sections: [{ title: 'You invested €50.00', action: { type: 'instrumentDetail', payload: 'IE00B4L5Y983' }, type: 'header' }],
+            };
+
+            const result = reader.parseTransaction(raw);
+
+            expect(result!.type).toBe(TransactionType.BUY);
+            expect(result!.savingsPlan).toBe('plan-001');
+        });
+
+        it('should classify a German savings plan execution as BUY', () => {
+            const germanReader = new TradeRepublicWsReader({ locale: 'de' });
+            const raw = {
+                id: '00000005-0000-0000-0000-000000000000',
+                timestamp: '2024-03-04T10:00:00.000+0000',
+                title: 'iShares Core MSCI World',
+                subtitle: 'Sparplan ausgeführt',
+                amount: { currency: 'EUR', value: -50, fractionDigits: 2 },
+                status: 'EXECUTED',
+                sections: [{ title: 'Du hast 50,00 € investiert', action: { type: 'instrumentDetail', payload: 'IE00B4L5Y983' }, type: 'header' }],
+            };
+
+            expect(germanReader.parseTransaction(raw)!.type).toBe(TransactionType.BUY);
+            expect(reader.parseTransaction(raw)).toBeNull();
+        });
+    });
+
+    describe('cached records', () => {
+        const execution = (id: string, timestamp: string) => ({
+            id,
+            timestamp,
+            title: 'iShares Core MSCI World',
+            subtitle: 'Saving executed',
+            amount: { currency: 'EUR', value: -50, fractionDigits: 2 },
+            status: 'EXECUTED',
+            sections: [{ title: 'You invested €50.00', action: { type: 'instrumentDetail', payload: 'IE00B4L5Y983' }, type: 'header' }],
+        });
+        // Newest first, like the timeline
+        const timeline = [
+            execution('00000023-0000-0000-0000-000000000000', '2024-03-04T10:00:00.000+0000'),
+            execution('00000022-0000-0000-0000-000000000000', '2024-02-05T10:00:00.000+0000'),
+            execution('00000021-0000-0000-0000-000000000000', '2024-01-04T10:00:00.000+0000'),
+        ];
+        let recordsDir: string;
+
+        beforeEach(() => {
+            recordsDir = mkdtempSync(join(tmpdir(), 'records-'));
+        });
+
+        afterEach(() => {
+            rmSync(recordsDir, { recursive: true, force: true });
+        });
+
+        it('should only return cached records that are not exported yet', async () => {
+            const cachingReader = new TradeRepublicWsReader();
+            let fetches = 0;
+            cachingReader.fetchTransactionRecords = async () => {
+                fetches++;
+                return timeline.map((record) => ({ ...record }));
+            };
+            await cachingReader.readTransactions({ cacheRecords: true, recordsDir });
+
+            const sinceFeb = await cachingReader.readTransactions({ cacheRecords: true, recordsDir, since: new Date('2024-02-01') });
+            const afterKnown = await cachingReader.readTransactions({ cacheRecords: true, recordsDir, knownIds: ['00000022-0000-0000-0000-000000000000'] });
+
+            expect(fetches).toBe(1);
+            expect(sinceFeb.map((tx) => tx.id)).toEqual(['00000023-0000-0000-0000-000000000000', '00000022-0000-0000-0000-000000000000']);
+            expect(afterKnown.map((tx) => tx.id)).toEqual(['00000023-0000-0000-0000-000000000000']);
+        });
+
+        it('should keep cached records that were exported as pending', async () => {
+            const cachingReader = new TradeRepublicWsReader();
+            cachingReader.fetchTransactionRecords = async () => timeline.map((record) => ({ ...record }));
+            await cachingReader.readTransactions({ cacheRecords: true, recordsDir });
+
+            const transactions = await cachingReader.readTransactions({
+                cacheRecords: true,
+                recordsDir,
+                knownIds: ['00000022-0000-0000-0000-000000000000', '00000021-0000-0000-0000-000000000000'],
+                pendingIds: ['00000021-0000-0000-0000-000000000000'],
+            });
+
+            expect(transactions.map((tx) => tx.id)).toEqual(['00000023-0000-0000-0000-000000000000', '00000021-0000-0000-0000-000000000000']);
+        });
+    });
+
+    describe('parseOpeningBalance', () => {
+        const date = new Date('2025-06-01T00:00:00.000Z');
+
+        it('should turn positions into BUY transactions at the average buy-in', () => {
+            const transactions = reader.parseOpeningBalance({
+                date,
+                positions: [{ isin: 'US0378331005', name: 'Apple', shares: 4, averageBuyIn: 150, currentPrice: 200, currentValue: 800, currency: 'USD' }],
+                cash: [],
+            });
+
+            expect(transactions).toEqual([expect.objectContaining({
+                type: TransactionType.BUY,
+                isin: 'US0378331005',
+                shares: 4,
+                price: 150,
+                amount: -600,
+                currency: 'USD',
+                date,
+            })]);
+        });
+
+        it('should turn cash balances into DEPOSIT transactions', () => {
+            const transactions = reader.parseOpeningBalance({
+                date,
+                positions: [],
+                cash: [{ currency: 'EUR', amount: 1234.5, available: 1000 }],
+            });
+
+            expect(transactions).toEqual([expect.objectContaining({ type: TransactionType.DEPOSIT, amount: 1234.5, currency: 'EUR', date })]);
+        });
+    });
+
+    describe('corporate actions', () => {
+        function timelineEvent(id: string, subtitle: string, isin: string, rows: Record<string, string>, locale: 'en' | 'de' = 'en') {
+            return {
+                id,
+                timestamp: '2024-06-10T22:00:00.000+0000',
+                title: 'Mock Corp',
+                subtitle,
+                status: 'EXECUTED',
+                sections: [
+                    { title: subtitle, action: { type: 'instrumentDetail', payload: isin }, type: 'header' },
+                    {
+                        title: locale === 'de' ? 'Übersicht' : 'Overview',
+                        data: Object.entries(rows).map(([title, text]) => ({ title, detail: { text, type: 'text' }, style: 'plain' })),
+                        type: 'table',
+                    },
+                ],
+            };
+        }
+
+        it('should parse a stock split with its ratio', () => {
+            const raw = timelineEvent('00000010-0000-0000-0000-000000000000', 'Stock Split', 'US67066G1040', { 'Split Ratio': '1:10', 'Shares': '10' });
+
+            const result = reader.parseTransaction(raw);
+
+            expect(result!.type).toBe(TransactionType.SPLIT);
+            expect(result!.isin).toBe('US67066G1040');
+            expect(result!.ratioFrom).toBe(1);
+            expect(result!.ratioTo).toBe(10);
+            expect(result!.shares).toBe(10);
+            expect(result!.relatedIsin).toBeUndefined();
+        });
+
+        it('should parse a reverse split', () => {
+            const raw = timelineEvent('00000011-0000-0000-0000-000000000000', 'Reverse Split', 'US67066G1040', { 'Split Ratio': '20 : 1' });
+
+            const result = reader.parseTransaction(raw);
+
+            expect(result!.type).toBe(TransactionType.SPLIT);
+            expect(result!.ratioFrom).toBe(20);
+            expect(result!.ratioTo).toBe(1);
+        });
+
+        it('should parse a spin-off with the parent ISIN', () => {
+            const raw = timelineEvent('00000012-0000-0000-0000-000000000000', 'Spin-off', 'DE000DTR0CK8', { 'Parent': 'Daimler AG (DE0007100000)', 'Shares': '5', 'Exchange Ratio': '2 for 1' });
+
+            const result = reader.parseTransaction(raw);
+
+            expect(result!.type).toBe(TransactionType.SPINOFF);
+            expect(result!.isin).toBe('DE000DTR0CK8');
+            expect(result!.relatedIsin).toBe('DE0007100000');
+            expect(result!.ratioFrom).toBe(2);
+            expect(result!.ratioTo).toBe(1);
+        });
+
+        it('should parse an ISIN change as merger', () => {
+            const raw = timelineEvent('00000013-0000-0000-0000-000000000000', 'ISIN change', 'US0000000002', { 'Previous ISIN': 'US0000000001' });
+
+            const result = reader.parseTransaction(raw);
+
+            expect(result!.type).toBe(TransactionType.MERGER);
+            expect(result!.relatedIsin).toBe('US0000000001');
+        });
+
+        it('should parse incoming and outgoing security transfers', () => {
+            const transferIn = timelineEvent('00000014-0000-0000-0000-000000000000', 'Incoming transfer', 'IE00B4L5Y983', { 'Shares': '3' });
+            const transferOut = timelineEvent('00000015-0000-0000-0000-000000000000', 'Outgoing transfer', 'IE00B4L5Y983', { 'Shares': '3' });
+
+            expect(reader.parseTransaction(transferIn)!.type).toBe(TransactionType.TRANSFER_IN);
+            expect(reader.parseTransaction(transferOut)!.type).toBe(TransactionType.TRANSFER_OUT);
+        });
+
+        it('should parse German corporate actions', () => {
+            const germanReader = new TradeRepublicWsReader({ locale: 'de' });
+            const split = timelineEvent('00000016-0000-0000-0000-000000000000', 'Aktiensplit', 'US67066G1040', { 'Verhältnis': '1:10', 'Aktien': '10' }, 'de');
+            const transferIn = timelineEvent('00000017-0000-0000-0000-000000000000', 'Depotübertrag eingehend', 'IE00B4L5Y983', { 'Aktien': '3' }, 'de');
+
+            const result = germanReader.parseTransaction(split);
+
+            expect(result!.type).toBe(TransactionType.SPLIT);
+            expect(result!.ratioTo).toBe(10);
+            expect(result!.shares).toBe(10);
+            expect(germanReader.parseTransaction(transferIn)!.type).toBe(TransactionType.TRANSFER_IN);
+        });
+    });
+});
+
+describe('applyDelta', () => {
+    it('should copy, skip and insert according to the instructions', () => {
+        const previous = '{"bid":{"price":10.5},"ask":{"price":10.6}}';
+        const delta = '=16\t-4\t+10.7\t=23';
+
+        expect(applyDelta(previous, delta)).toBe('{"bid":{"price":10.7},"ask":{"price":10.6}}');
+    });
+
+    it('should decode url-encoded inserts', () => {
+        expect(applyDelta('{"title":""}', '=10\t+Saving%20executed\t=2')).toBe('{"title":"Saving executed"}');
+    });
+});
+
+describe('TradeRepublicWebSocket', () => {
+    const PLANS = ['IE0000000001', 'IE0000000002', 'IE0000000003', 'IE0000000004']
+        .map((isin, i) => ({ id: `plan-${i}`, instrumentId: isin, amount: 50, interval: 'monthly' }));
+
+    let wss: WebSocketServer;
+
+    afterEach(async () => {
+        for (const client of wss.clients) {
+            client.terminate();
+        }
+        await new Promise<void>((resolve) => wss.close(() => resolve()));
+    });
+
+    it('should route interleaved frames to their subscriptions', async () => {
+        wss = new WebSocketServer({ host: '127.0.0.1', port: 0 });
+        await new Promise((resolve) => wss.on('listening', resolve));
+
+        const ids: Record<string, string> = {};
+        wss.on('connection', (socket) => {
+            socket.on('message', (data: Buffer) => {
+                const message = data.toString();
+                if (message.startsWith('connect ')) {
+                    socket.send('connected');
+                    return;
+                }
+
+                const sub = message.match(/^sub (\d+) ([\s\S]*)$/);
+                if (!sub) return;
+
+                const request = JSON.parse(sub[2]);
+                if (request.type === 'savingsPlans') {
+                    socket.send(`${sub[1]} A ${JSON.stringify({ savingsPlans: PLANS })}`);
+                    return;
+                }
+
+                // Answer once all instruments are requested, in a different order and with frames of other subscriptions in between
+                ids[request.id] = sub[1];
+                if (Object.keys(ids).length < PLANS.length) return;
+                socket.send(`${ids.IE0000000004} A {"shortName":"Delta ETF"}`);
+                socket.send(`${ids.IE0000000002} E {"errors":[{"errorCode":"NOT_FOUND"}]}`);
+                socket.send(`${ids.IE0000000004} D =14\t-5\t+Gamma\t=6`);
+                socket.send(`${ids.IE0000000003} D =2\t+x`);
+                socket.send(`${ids.IE0000000001} A {"shortName":"Alpha ETF"}`);
+            });
+        });
+
+        const { port } = wss.address() as AddressInfo;
+        const reader = new TradeRepublicWsReader({ wsUrl: `ws://127.0.0.1:${port}` });
+        const plans = await reader.readSavingsPlans({ token: 'token' });
+
+        expect(plans.map((plan) => [plan.isin, plan.name])).toEqual([
+            ['IE0000000001', 'Alpha ETF'],
+            // Error frame
+            ['IE0000000002', undefined],
+            // Delta without a full payload before
+            ['IE0000000003', undefined],
+            // A late delta does not change the answer
+            ['IE0000000004', 'Delta ETF'],
+        ]);
+        expect(new Set(Object.values(ids)).size).toBe(PLANS.length);
+    });
 });
@@ -1,9 +1,14 @@
 import { logger } from '../utils/logger.ts';
 import WebSocket from 'ws';
+import { existsSync } from 'fs';
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
 import promptly from 'promptly';
-import { AssetType, TransactionType, type Transaction } from "../transaction.ts";
+import { AssetType, TransactionType, type PortfolioPosition, type PortfolioSnapshot, type SavingsPlan, type Transaction } from "../transaction.ts";
 import { BaseReader, type ReaderOptions } from './index.ts';
 import { parseAmount } from '../utils/parse.ts';
+import { isValidIsin } from '../utils/validate.ts';
+import { SessionStore } from '../services/session.ts';
 
 const API_BASE = 'https://api.traderepublic.com';
 const WS_URL = 'wss://api.traderepublic.com';
@@ -15,6 +20,20 @@ const PIN_REGEX = /^\d{4}$/;
 const CODE_REGEX = /^\d{4}$/;
 const LOGO_ISIN_REGEX = /logos\/([0-9A-Z]{12})(?:\/|$)/i;
 
+const ISIN_REGEX = /\b[A-Z]{2}[A-Z0-9]{9}\d\b/g;
+const RATIO_REGEX = /(\d+(?:[.,]\d+)?)\s*(?::|for|für)\s*(\d+(?:[.,]\d+)?)/i;
+
+const CORPORATE_ACTION_TYPES: TransactionType[] = [
+    TransactionType.SPLIT,
+    TransactionType.SPINOFF,
+    TransactionType.MERGER,
+    TransactionType.TRANSFER_IN,
+    TransactionType.TRANSFER_OUT,
+];
+
+// Refresh sessions a bit before they actually expire
+const SESSION_EXPIRY_MARGIN_MS = 60 * 1000;
+
 /**
  * Raw transaction data from TradeRepublic API
  */
@@ -51,6 +70,19 @@ interface RawTransaction {
     averageBalance?: number;
     couponPayment?: string;
     transaction?: string;
+    /** Folder the documents of this transaction were downloaded to */
+    documentsPath?: string;
+    /** Savings plan that executed this transaction */
+    savingsPlanId?: string;
+    ratio?: string;
+}
+
+/**
+ * Document linked in the documents section of a timeline detail
+ */
+export interface TransactionDocument {
+    title: string;
+    url: string;
 }
 
 interface TradeRepublicWsOptions extends ReaderOptions {
@@ -60,6 +92,127 @@ interface TradeRepublicWsOptions extends ReaderOptions {
     showToken?: boolean;
     /** Session token for authentication (if you have your token, you can reuse it) */
     token?: string;
+    /** Stop paginating at transactions older than this date */
+    since?: Date;
+    /** Stop paginating as soon as one of these transaction ids is reached */
+    knownIds?: string[];
+    /** Known transactions that were still pending, they are fetched again and paginating continues until all are reached */
+    pendingIds?: string[];
+    /** Maximum number of transaction details requested at the same time */
+    concurrency?: number;
+    /** Store to reuse and refresh the web session between runs */
+    sessionStore?: SessionStore;
+    /** Download the documents of each transaction into a subfolder of this folder */
+    documentsDir?: string;
+}
+
+/**
+ * Web session cookies returned after the 2FA verification
+ */
+interface WebSession {
+    /** Value of the tr_session cookie, used as token for the WebSocket */
+    session: string;
+    /** Value of the tr_refresh cookie, used to get a new session */
+    refresh?: string;
+}
+
+interface TimelineFetchOptions {
+    since?: Date;
+    knownIds?: Set<string>;
+    /** Pending transactions still to reach, removed once fetched */
+    pendingIds?: Set<string>;
+    /** Cursor of the page to start from */
+    after?: string;
+}
+
+interface TimelinePage {
+    items: RawTransaction[];
+    /** Cursor of the next page, undefined on the last page */
+    cursor?: string;
+}
+
+/**
+ * Position from the compactPortfolio topic
+ */
+interface RawPortfolioPosition {
+    instrumentId: string;
+    netSize: string;
+    averageBuyIn: string;
+    /** Not sent by every app version, the position is then in the currency of the account */
+    currencyId?: string;
+}
+
+/**
+ * Entry of the cash and availableCash topics
+ */
+interface RawCashBalance {
+    accountNumber?: string;
+    currencyId: string;
+    amount: number;
+}
+
+/**
+ * Savings plan from the savingsPlans topic
+ */
+interface RawSavingsPlan {
+    id: string;
+    instrumentId: string;
+    amount: number;
+    interval: string;
+    nextExecutionDate?: string;
+    paused?: boolean;
+}
+
+interface PromptOptions {
+    silent?: boolean;
+    validator?: (value: string) => string;
+}
+
+/**
+ * Language of the app labels returned by the API
+ */
+export type TradeRepublicLocale = 'en' | 'de';
+
+/**
+ * App labels of one locale that are used to classify timeline transactions
+ */
+interface TimelineLabels {
+    /** Table titles mapped to property names, titles not listed here are converted to camelCase */
+    properties: Record<string, string>;
+    /** Parts of the order type or subtitle of a buy, case-sensitive */
+    buy: string[];
+    /** Parts of the order type or subtitle of a sell, case-sensitive */
+    sell: string[];
+    /** Subtitle of a savings plan execution */
+    savingExecuted: string;
+    /** Parts of the event, lowercase */
+    repayment: string[];
+    dividend: string[];
+    income: string[];
+    lumpSum: string[];
+    tax: string[];
+    /** Event of a bond coupon payment */
+    couponPayment: string;
+    /** Card payment states */
+    completed: string;
+    pending: string;
+    /** Parts of the event or subtitle of a corporate action, lowercase */
+    split: string[];
+    spinoff: string[];
+    merger: string[];
+    transferIn: string[];
+    transferOut: string[];
+}
+
+/**
+ * Endpoints and user prompt of the reader, can be overridden to run against a local server
+ */
+export interface TradeRepublicWsConfig {
+    apiBase?: string;
+    wsUrl?: string;
+    prompt?: (message: string, options: PromptOptions) => Promise<string>;
+    /** Language requested from the API, defaults to English */
+    locale?: TradeRepublicLocale;
 }
 
 interface LoginInitResponse {
@@ -95,21 +248,136 @@ interface PostResponse<T = unknown> {
  * 3. Parsing and formatting transaction data
  */
 export class TradeRepublicWsReader extends BaseReader<RawTransaction> {
-
-    constructor() {
+    static SESSION_KEY = 'trade-republic';
+
+    static LABELS: Record<TradeRepublicLocale, TimelineLabels> = {
+        en: {
+            properties: {
+                'Split Ratio': 'ratio',
+                'Exchange Ratio': 'ratio',
+            },
+            buy: ['Buy'],
+            sell: ['Sell'],
+            savingExecuted: 'Saving executed',
+            repayment: ['repayment'],
+            dividend: ['dividend'],
+            income: ['income'],
+            lumpSum: ['lump sum'],
+            tax: ['tax'],
+            couponPayment: 'Coupon Payment',
+            completed: 'Completed',
+            pending: 'Pending',
+            split: ['split'],
+            spinoff: ['spin-off', 'spinoff'],
+            merger: ['merger', 'isin change'],
+            transferIn: ['transfer in', 'incoming transfer', 'inbound transfer'],
+            transferOut: ['transfer out', 'outgoing transfer', 'outbound transfer'],
+        },
+        de: {
+            properties: {
+                'Ordertyp': 'orderType',
+                'Orderart': 'orderType',
+                'Ereignis': 'event',
+                'Wertpapier': 'asset',
+                'Transaktion': 'transaction',
+                'Aktien': 'shares',
+                'Anteile': 'shares',
+                'Aktienkurs': 'sharePrice',
+                'Anteilspreis': 'sharePrice',
+                'Dividende pro Aktie': 'dividendPerShare',
+                'Ausschüttung pro Anteil': 'dividendPerShare',
+                'Gebühr': 'fee',
+                'Steuer': 'tax',
+                'Steuern': 'tax',
+                'Steuerkorrektur': 'taxCorrection',
+                'Stückzinsen': 'accruedInterest',
+                'Gesamt': 'total',
+                'Summe': 'total',
+                'Von': 'from',
+                'Absender': 'sender',
+                'Empfänger': 'recipient',
+                'Jahressatz': 'annualRate',
+                'Kupon': 'coupon',
+                'Kuponzahlung': 'couponPayment',
+                'Rückzahlung': 'repayment',
+                'Nominale': 'nominal',
+                'Kartenzahlung': 'cardPayment',
+                'Kartenerstattung': 'cardRefund',
+                'Lastschrift': 'directDebit',
+                'Verhältnis': 'ratio',
+                'Umtauschverhältnis': 'ratio',
+                'Bezugsverhältnis': 'ratio',
+            },
+            buy: ['Kauf'],
+            sell: ['Verkauf'],
+            savingExecuted: 'Sparplan ausgeführt',
+            repayment: ['rückzahlung', 'tilgung'],
+            dividend: ['dividende'],
+            income: ['ertrag', 'ausschüttung'],
+            lumpSum: ['vorabpauschale'],
+            tax: ['steuer'],
+            couponPayment: 'Kuponzahlung',
+            completed: 'Abgeschlossen',
+            pending: 'Ausstehend',
+            split: ['split', 'zusammenlegung'],
+            spinoff: ['abspaltung', 'spin-off'],
+            merger: ['fusion', 'verschmelzung', 'isin-änderung', 'isin-wechsel'],
+            transferIn: ['übertrag eingehend', 'eingehender übertrag', 'einbuchung'],
+            transferOut: ['übertrag ausgehend', 'ausgehender übertrag', 'ausbuchung'],
+        },
+    };
+
+    private readonly apiBase: string;
+    private readonly wsUrl: string;
+    private readonly prompt: (message: string, options: PromptOptions) => Promise<string>;
+    private readonly locale: TradeRepublicLocale;
+    private readonly labels: TimelineLabels;
+
+    constructor(config: TradeRepublicWsConfig = {}) {
         super('trade-republic-ws');
+        this.apiBase = config.apiBase ?? API_BASE;
+        this.wsUrl = config.wsUrl ?? WS_URL;
+        this.prompt = config.prompt ?? ((message, options) => promptly.prompt(message, options));
+        this.locale = config.locale ?? 'en';
+        this.labels = TradeRepublicWsReader.LABELS[this.locale];
     }
 
     async fetchTransactionRecords(options: TradeRepublicWsOptions): Promise<RawTransaction[]> {
-        const token = await this.authenticate(options.phone, options.showToken, options.token);
-        const ws = new TradeRepublicWebSocket(token);
+        const token = await this.authenticate(options.phone, options.showToken, options.token, options.sessionStore);
+        const ws = new TradeRepublicWebSocket(token, { url: this.wsUrl, locale: this.locale, concurrency: options.concurrency });
 
         try {
             await ws.connect();
 
-            const records: RawTransaction[] = [];
-            for await (const tx of ws.fetchAllTransactions()) {
-                records.push(tx);
+            const savingsPlans = await ws.fetchSavingsPlans().catch((err: Error) => {
+                logger.warn(`⚠️  Could not fetch savings plans, executions won't be tagged: ${err.message}`);
+                return [];
+            });
+
+            const records: RawTransaction[] = [...(options.resume?.records || [])];
+            const timelineOptions: TimelineFetchOptions = {
+                since: options.since,
+                knownIds: new Set(options.knownIds || []),
+                pendingIds: new Set(options.pendingIds || []),
+                after: options.resume?.cursor,
+            };
+            // Pending transactions fetched before the interruption are up to date
+            records.forEach((record) => record.id && timelineOptions.pendingIds!.delete(record.id));
+            if (options.resume && !options.resume.cursor) {
+                // Interrupted after the last page, the timeline starts over and stops at the records fetched before
+                records.forEach((record) => record.id && timelineOptions.knownIds!.add(record.id));
+            }
+            for await (const page of ws.fetchAllTransactions(timelineOptions)) {
+                for (const record of page.items) {
+                    this.tagSavingsPlan(record, savingsPlans);
+                }
+                if (options.documentsDir) {
+                    for (const record of page.items) {
+                        await this.downloadDocuments(record, options.documentsDir);
+                    }
+                }
+                records.push(...page.items);
+                await options.onProgress?.(page.items, page.cursor);
             }
 
             return records;
@@ -118,12 +386,167 @@ export class TradeRepublicWsReader extends BaseReader<RawTransaction> {
         }
     }
 
-    private async authenticate(phoneNumber?: string, showToken?: boolean, token?: string): Promise<string> {
+    /**
+     * Cached records are in timeline order, so they are cut where the timeline would have stopped
+     */
+    protected filterCachedRecords(records: RawTransaction[], options: TradeRepublicWsOptions): RawTransaction[] {
+        return selectNotExported(records, {
+            since: options.since,
+            knownIds: new Set(options.knownIds || []),
+            pendingIds: new Set(options.pendingIds || []),
+        }).items;
+    }
+
+    async readSavingsPlans(options: TradeRepublicWsOptions = {}): Promise<SavingsPlan[]> {
+        const token = await this.authenticate(options.phone, options.showToken, options.token, options.sessionStore);
+        const ws = new TradeRepublicWebSocket(token, { url: this.wsUrl, locale: this.locale, concurrency: options.concurrency });
+
+        try {
+            await ws.connect();
+
+            logger.info(`🔎 Fetching savings plans from ${this.name}...`);
+            const plans = await ws.fetchSavingsPlans();
+            logger.info(`📋 Found ${plans.length} savings plans`);
+            return plans;
+        } finally {
+            ws.close();
+        }
+    }
+
+    /**
+     * Links a savings plan execution to its plan. The timeline doesn't reference the plan,
+     * so executions are matched to the plan of the same instrument.
+     */
+    private tagSavingsPlan(record: RawTransaction, savingsPlans: SavingsPlan[]): void {
+        if (record.subtitle !== this.labels.savingExecuted) return;
+
+        const { isin } = this.extractTransactionData(record);
+        const plan = savingsPlans.find((p) => p.isin === isin);
+        if (plan) {
+            record.savingsPlanId = plan.id;
+        }
+    }
+
+    /**
+     * Downloads all documents of a transaction into a folder named after the transaction id.
+     * Document links are short-lived, so this has to happen right after fetching the details.
+     */
+    private async downloadDocuments(record: RawTransaction, documentsDir: string): Promise<void> {
+        const documents = this.extractDocuments(record);
+        if (documents.length === 0) return;
+
+        const folder = join(documentsDir, record.id);
+        await mkdir(folder, { recursive: true });
+
+        const usedNames = new Set<string>();
+        for (const document of documents) {
+            const baseName = document.title.replace(/[\\/:*?"<>|]/g, '_');
+            let fileName = `${baseName}.pdf`;
+            for (let i = 2; usedNames.has(fileName); i++) {
+                fileName = `${baseName} (${i}).pdf`;
+            }
+            usedNames.add(fileName);
+
+            const filePath = join(folder, fileName);
+            if (existsSync(filePath)) continue;
+
+            try {
+                const response = await fetch(document.url, { headers: { 'User-Agent': USER_AGENT } });
+                if (!response.ok) throw new Error(`HTTP ${response.status}`);
+                await writeFile(filePath, Buffer.from(await response.arrayBuffer()));
+                logger.debug(`Downloaded ${filePath}`);
+            } catch (err) {
+                logger.warn(`⚠️  Failed to download "${document.title}" of transaction ${record.id}: ${(err as Error).message}`);
+            }
+        }
+
+        record.documentsPath = folder;
+    }
+
+    /**
+     * Collects the document links from the documents section of a timeline detail
+     */
+    extractDocuments(record: RawTransaction): TransactionDocument[] {
+        if (!Array.isArray(record.sections)) return [];
+
+        const documents: TransactionDocument[] = [];
+        for (const section of record.sections) {
+            if (section.type !== 'documents' || !Array.isArray(section.data)) continue;
+
+            for (const item of section.data) {
+                const url = item.action?.payload;
+                if (typeof url === 'string' && url.startsWith('http')) {
+                    documents.push({ title: item.title || item.id || 'Document', url });
+                }
+            }
+        }
+        return documents;
+    }
+
+    /**
+     * Fetches the current positions and cash balances of the account
+     */
+    async readPortfolio(options: TradeRepublicWsOptions = {}): Promise<PortfolioSnapshot> {
+        const token = await this.authenticate(options.phone, options.showToken, options.token, options.sessionStore);
+        const ws = new TradeRepublicWebSocket(token, { url: this.wsUrl, locale: this.locale, concurrency: options.concurrency });
+
+        try {
+            await ws.connect();
+
+            logger.info(`🔎 Fetching portfolio from ${this.name}...`);
+            const snapshot = await ws.fetchPortfolio();
+            logger.info(`📋 Found ${snapshot.positions.length} positions and ${snapshot.cash.length} cash balances`);
+            return snapshot;
+        } finally {
+            ws.close();
+        }
+    }
+
+    /**
+     * Opening balance of a portfolio snapshot, to start a history from it:
+     * one BUY per position at its average buy-in and one DEPOSIT per cash balance, dated when the snapshot was taken
+     */
+    parseOpeningBalance(snapshot: PortfolioSnapshot): Transaction[] {
+        const transactions: Transaction[] = snapshot.positions.map((position) => ({
+            id: `portfolio-${position.isin}`,
+            type: TransactionType.BUY,
+            isin: position.isin,
+            name: position.name,
+            shares: position.shares,
+            price: position.averageBuyIn,
+            amount: -(position.shares * position.averageBuyIn),
+            currency: position.currency,
+            fee: 0,
+            tax: 0,
+            date: snapshot.date,
+            source: this.name,
+        }));
+
+        for (const cash of snapshot.cash) {
+            transactions.push({
+                id: `portfolio-cash-${cash.currency}`,
+                type: TransactionType.DEPOSIT,
+                amount: cash.amount,
+                currency: cash.currency,
+                date: snapshot.date,
+                source: this.name,
+            });
+        }
+
+        return transactions;
+    }
+
+    private async authenticate(phoneNumber?: string, showToken?: boolean, token?: string, sessionStore?: SessionStore): Promise<string> {
         if (token) {
             logger.info('✅ Using provided session token');
             return token;
         }
 
+        const stored = await this.restoreSession(sessionStore);
+        if (stored) {
+            return stored.session;
+        }
+
         logger.info('🔐 Connecting to the TradeRepublic API...');
         if (!phoneNumber) {
             phoneNumber = await this.promptUser('Enter your phone (e.g., +1234567890): ', 'phone');
@@ -132,20 +555,73 @@ export class TradeRepublicWsReader extends BaseReader<RawTransaction> {
 
         const { processId, countdownInSeconds } = await this.initializeLogin(phoneNumber, pin);
         const code = await this.get2FACode(processId, countdownInSeconds);
-        token = await this.verifyAndGetToken(processId, code);
+        const session = await this.verifyAndGetSession(processId, code);
+        sessionStore?.set(TradeRepublicWsReader.SESSION_KEY, session);
 
         logger.info('✅ Successfully authenticated!');
         if (showToken) {
-            logger.info(`Session token: ${token}`);
+            logger.info(`Session token: ${session.session}`);
         }
 
-        return token;
+        return session.session;
+    }
+
+    /**
+     * Returns the stored session if it is still valid, otherwise tries to refresh it.
+     * Drops the stored session when it can't be refreshed anymore.
+     */
+    private async restoreSession(sessionStore?: SessionStore): Promise<WebSession | undefined> {
+        const stored = sessionStore?.get<WebSession>(TradeRepublicWsReader.SESSION_KEY);
+        if (!stored) return undefined;
+
+        const expiresAt = this.getTokenExpiry(stored.session);
+        if (expiresAt && expiresAt.getTime() - SESSION_EXPIRY_MARGIN_MS > Date.now()) {
+            logger.info('✅ Using stored session');
+            return stored;
+        }
+
+        if (stored.refresh) {
+            try {
+                const session = await this.refreshSession(stored.refresh);
+                sessionStore!.set(TradeRepublicWsReader.SESSION_KEY, session);
+                logger.info('✅ Refreshed stored session');
+                return session;
+            } catch (err) {
+                logger.warn(`⚠️  Could not refresh stored session: ${(err as Error).message}`);
+            }
+        }
+
+        sessionStore!.delete(TradeRepublicWsReader.SESSION_KEY);
+        return undefined;
+    }
+
+    /**
+     * Reads the expiry from the session token, which is a JWT
+     */
+    private getTokenExpiry(token: string): Date | undefined {
+        try {
+            const payload = JSON.parse(Buffer.from(token.split('.')[1], 'base64url').toString('utf-8'));
+            return typeof payload.exp === 'number' ? new Date(payload.exp * 1000) : undefined;
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async refreshSession(refreshToken: string): Promise<WebSession> {
+        const response = await fetch(`${this.apiBase}/api/v1/auth/web/session`, {
+            method: 'GET',
+            headers: { 'User-Agent': USER_AGENT, Cookie: `tr_refresh=${refreshToken}` },
+        });
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+        const session = this.extractSession(response.headers);
+        return { session: session.session, refresh: session.refresh || refreshToken };
     }
 
     private async promptUser(
         message: string,
         type: 'phone' | 'pin' | 'code' = 'code',
-        options: { silent?: boolean; validator?: (value: string) => string } = {}
+        options: PromptOptions = {}
     ): Promise<string> {
         if (type === 'phone') {
             options.validator = (value: string) => {
@@ -174,7 +650,7 @@ export class TradeRepublicWsReader extends BaseReader<RawTransaction> {
                 return value;
             };
         }
-        return await promptly.prompt(message, options);
+        return await this.prompt(message, options);
     }
 
     private async initializeLogin(phoneNumber: string, pin: string): Promise<LoginInitResponse> {
@@ -191,15 +667,20 @@ export class TradeRepublicWsReader extends BaseReader<RawTransaction> {
         return await this.promptUser('❓ Enter the 2FA code received by SMS: ', 'code');
     }
 
-    private async verifyAndGetToken(processId: string, code: string): Promise<string> {
+    private async verifyAndGetSession(processId: string, code: string): Promise<WebSession> {
         const { status, headers } = await this.post(`/api/v1/auth/web/login/${processId}/${code}`);
         if (status !== 200) throw new Error('Device verification failed');
 
-        const cookies = (headers.get('set-cookie') || '').split(',').map((c) => c.trim());
-        const sessionCookie = cookies.find((c) => c.startsWith('tr_session='));
+        return this.extractSession(headers);
+    }
+
+    private extractSession(headers: Headers): WebSession {
+        const cookies = headers.getSetCookie().map((c) => c.split(';')[0].trim());
+        const getCookie = (name: string) => cookies.find((c) => c.startsWith(`${name}=`))?.slice(name.length + 1);
 
-        if (!sessionCookie) throw new Error('Session cookie not found');
-        return sessionCookie.split(';')[0].split('=')[1];
+        const session = getCookie('tr_session');
+        if (!session) throw new Error('Session cookie not found');
+        return { session, refresh: getCookie('tr_refresh') };
     }
 
     private async post<T = unknown>(
@@ -208,7 +689,7 @@ export class TradeRepublicWsReader extends BaseReader<RawTransaction> {
         retryCount: number = 0,
         maxRetries: number = 3
     ): Promise<PostResponse<T>> {
-        const response = await fetch(`${API_BASE}${endpoint}`, {
+        const response = await fetch(`${this.apiBase}${endpoint}`, {
             method: 'POST',
             headers: { 'Content-Type': 'application/json', 'User-Agent': USER_AGENT },
             body: JSON.stringify(data),
@@ -290,10 +771,12 @@ export class TradeRepublicWsReader extends BaseReader<RawTransaction> {
 
     /**
      * Converts a space-separated title to camelCase property name
-     * Example: "Order Type" -> "orderType"
+     * Example: "Order Type" -> "orderType", "Ordertyp" -> "orderType" in German
      */
     private normalizePropertyName(title?: string): string {
         if (!title) return '';
+        if (this.labels.properties[title]) return this.labels.properties[title];
+
         const words = title.split(' ');
         if (words.length === 1) return title.toLowerCase();
 
@@ -398,11 +881,14 @@ export class TradeRepublicWsReader extends BaseReader<RawTransaction> {
 
         let comment: string | undefined = undefined;
         if (typeof record.quotation === 'string') {
-            comment = `Quotation: ${parseFloat(record.quotation)}%`;
+            comment = `Quotation: ${parseAmount(record.quotation.replace('%', ''))}%`;
         } else if (typeof record.coupon === 'string' && typeof record.nominal === 'string') {
-            comment = `Coupon: ${parseFloat(record.coupon)}%; Nominal: ${Math.abs(parseAmount(record.nominal) || 0)}`;
+            comment = `Coupon: ${parseAmount(record.coupon.replace('%', ''))}%; Nominal: ${Math.abs(parseAmount(record.nominal) || 0)}`;
         }
 
+        const isCorporateAction = CORPORATE_ACTION_TYPES.includes(transactionType);
+        const { ratioFrom, ratioTo } = isCorporateAction ? this.parseRatio(record.ratio) : {};
+
         return {
             id: record.id,
             type: transactionType,
@@ -419,9 +905,40 @@ export class TradeRepublicWsReader extends BaseReader<RawTransaction> {
             amount: record.amount?.value || parseAmount(record.total),
             comment,
             source: this.name,
+            documents: record.documentsPath,
+            savingsPlan: record.savingsPlanId,
+            ratioFrom,
+            ratioTo,
+            relatedIsin: isCorporateAction ? this.findRelatedIsin(record) : undefined,
         };
     }
 
+    /**
+     * Parse a ratio like "1:10", "10 : 1" or "3 for 1" into shares before and after the corporate action
+     */
+    private parseRatio(ratio: unknown): { ratioFrom?: number; ratioTo?: number } {
+        if (typeof ratio !== 'string') return {};
+        const match = ratio.match(RATIO_REGEX);
+        if (!match) return {};
+
+        return { ratioFrom: parseAmount(match[1]), ratioTo: parseAmount(match[2]) };
+    }
+
+    /**
+     * Corporate actions mention the other security (old ISIN, parent company) in their details
+     */
+    private findRelatedIsin(record: RawTransaction): string | undefined {
+        for (const value of Object.values(record)) {
+            if (typeof value !== 'string') continue;
+            for (const [candidate] of value.matchAll(ISIN_REGEX)) {
+                if (candidate !== record.isin && isValidIsin(candidate)) {
+                    return candidate;
+                }
+            }
+        }
+        return undefined;
+    }
+
     /**
      * Parse string like "0.389478 x  €32.51" or "2 ×  €272.00" and return shares and sharePrice
      */
@@ -447,32 +964,53 @@ export class TradeRepublicWsReader extends BaseReader<RawTransaction> {
     }
 
     private classifyTransactionType(tx: RawTransaction): TransactionType | undefined {
+        const labels = this.labels;
+        const event = tx.event?.toLowerCase();
+        const isBuy = labels.buy.some((label) => tx.orderType?.includes(label) || tx.subtitle?.includes(label));
+        const isSell = labels.sell.some((label) => tx.orderType?.includes(label) || tx.subtitle?.includes(label));
+        const eventIs = (parts: string[]) => !!event && parts.some((part) => event.includes(part));
+        const action = [tx.event, tx.subtitle].filter(Boolean).join(' ').toLowerCase();
+        const actionIs = (parts: string[]) => parts.some((part) => action.includes(part));
+
         // stocks: buy, sell, dividend, fee, interest, liability, tax
         if (tx.isin) {
-            if (tx.orderType?.includes('Buy') || tx.subtitle?.includes('Buy') || tx.subtitle === 'Saving executed') {
+            // corporate actions first, their subtitles can mention a buy or sell
+            if (actionIs(labels.split)) {
+                return TransactionType.SPLIT;
+            } else if (actionIs(labels.spinoff)) {
+                return TransactionType.SPINOFF;
+            } else if (actionIs(labels.merger)) {
+                return TransactionType.MERGER;
+            } else if (actionIs(labels.transferIn)) {
+                return TransactionType.TRANSFER_IN;
+            } else if (actionIs(labels.transferOut)) {
+                return TransactionType.TRANSFER_OUT;
+            }
+
+            if (isBuy || tx.subtitle === labels.savingExecuted) {
                 return TransactionType.BUY;
-            } else if (tx.orderType?.includes('Sell') || tx.subtitle?.includes('Sell') || tx.event?.toLowerCase().includes('repayment')) {
+            } else if (isSell || eventIs(labels.repayment)) {
                 return TransactionType.SELL;
-            } else if (tx.event?.toLowerCase().includes('dividend') || (tx.event?.toLowerCase().includes('income') && tx.dividendPerShare)) {
+            } else if (eventIs(labels.dividend) || (eventIs(labels.income) && tx.dividendPerShare)) {
                 return TransactionType.DIVIDEND;
             } else if (tx.saveback) {
                 return TransactionType.BUY;
-            } else if (tx.event?.toLowerCase().includes('lump sum')) {
+            } else if (eventIs(labels.lumpSum)) {
                 return TransactionType.TAX;
             }
         } else {
-            if (tx.annualRate || (tx.accrued && tx.averageBalance) || tx.couponPayment || tx.event === 'Coupon Payment') {
+            if (tx.annualRate || (tx.accrued && tx.averageBalance) || tx.couponPayment || tx.event === labels.couponPayment) {
                 return TransactionType.INTEREST;
-            } else if (tx.event?.toLowerCase().includes('tax')) {
+            } else if (eventIs(labels.tax)) {
                 return TransactionType.TAX;
             }
 
             // card: payment, refund, transfer, deposit, withdrawal, cashback, verification, gift, canceled
             if (tx.status === 'CANCELED') {
                 return TransactionType.CANCELED;
-            } else if (tx.cardRefund === 'Completed') {
+            } else if (tx.cardRefund === labels.completed) {
                 return TransactionType.REFUND;
-            } else if (tx.cardPayment === 'Completed' || tx.cardPayment === 'Pending' || tx.directDebit === 'Completed') {
+            } else if (tx.cardPayment === labels.completed || tx.cardPayment === labels.pending || tx.directDebit === labels.completed) {
                 return TransactionType.PAYMENT;
             } else if (tx.transfer && tx.recipient) {
                 return TransactionType.TRANSFER;
@@ -489,23 +1027,128 @@ export class TradeRepublicWsReader extends BaseReader<RawTransaction> {
     }
 }
 
+/**
+ * Applies a delta frame to the previous payload of a subscription.
+ * The delta is a tab-separated list of instructions:
+ * `=N` copies N characters from the previous payload, `-N` skips them and `+text` inserts url-encoded text.
+ */
+export function applyDelta(previous: string, delta: string): string {
+    let position = 0;
+    const result: string[] = [];
+
+    for (const instruction of delta.split('\t')) {
+        const sign = instruction.charAt(0);
+        const value = instruction.slice(1);
+
+        if (sign === '+') {
+            result.push(decodeURIComponent(value.replace(/\+/g, ' ')).trim());
+        } else if (sign === '=') {
+            const length = parseInt(value, 10);
+            result.push(previous.slice(position, position + length));
+            position += length;
+        } else if (sign === '-') {
+            position += parseInt(value, 10);
+        }
+    }
+
+    return result.join('');
+}
+
+/**
+ * The timeline is ordered from newest to oldest, so the first item that is either known
+ * or older than the `since` date marks the point where everything after it was exported before.
+ */
+function isAlreadyExported(transaction: RawTransaction, options: TimelineFetchOptions): boolean {
+    if (transaction.id && options.knownIds?.has(transaction.id)) {
+        return true;
+    }
+
+    if (options.since && transaction.timestamp) {
+        const date = new Date(transaction.timestamp.replace('+0000', 'Z'));
+        return date < options.since;
+    }
+
+    return false;
+}
+
+/**
+ * Items of the timeline up to the point where everything was exported before. Known transactions that were
+ * pending are selected again for their update, and known ones are skipped instead of stopping until all pending are reached.
+ */
+function selectNotExported(items: RawTransaction[], options: TimelineFetchOptions): { items: RawTransaction[]; reachedKnown: boolean } {
+    const selected: RawTransaction[] = [];
+    for (const transaction of items) {
+        if (transaction.id && options.pendingIds?.delete(transaction.id)) {
+            selected.push(transaction);
+        } else if (!isAlreadyExported(transaction, options)) {
+            selected.push(transaction);
+        } else if (!options.pendingIds?.size) {
+            return { items: selected, reachedKnown: true };
+        }
+    }
+    return { items: selected, reachedKnown: false };
+}
+
+interface WebSocketOptions {
+    url?: string;
+    /** Language of the labels in the responses */
+    locale?: TradeRepublicLocale;
+    /** Maximum number of subscriptions in flight at the same time */
+    concurrency?: number;
+    /** How often to reconnect after the connection dropped before giving up */
+    maxReconnects?: number;
+}
+
+/**
+ * Raised when the socket closes or fails, so the pending work can be retried on a new connection
+ */
+class ConnectionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConnectionError';
+    }
+}
+
+interface Subscription {
+    resolve: (payload: string) => void;
+    reject: (error: Error) => void;
+    previous?: string;
+}
+
 class TradeRepublicWebSocket {
     private readonly token: string;
+    private readonly url: string;
+    private readonly locale: TradeRepublicLocale;
+    private readonly concurrency: number;
+    private readonly maxReconnects: number;
     private ws: WebSocket | null = null;
     private messageId: number = 0;
+    private subscriptions: Map<number, Subscription> = new Map();
+    private waitingForSlot: Array<() => void> = [];
+    private activeSubscriptions: number = 0;
+    private onConnected: (() => void) | null = null;
 
-    constructor(token: string) {
+    constructor(token: string, options: WebSocketOptions = {}) {
         this.token = token;
+        this.url = options.url ?? WS_URL;
+        this.locale = options.locale ?? 'en';
+        this.concurrency = Number.isFinite(options.concurrency) ? Math.max(1, Math.floor(options.concurrency!)) : 5;
+        this.maxReconnects = options.maxReconnects ?? 5;
     }
 
     private log(message: string, data: Record<string, unknown> | null = null): void {
-        if (data && 'token' in data) data.token = '[REDACTED]';
+        if (data && 'token' in data) data = { ...data, token: '[REDACTED]' };
         logger.debug({ msg: `[DEBUG WebSocket] ${message}`, data: data ? JSON.stringify(data) : undefined });
     }
 
     async connect(): Promise<void> {
+        if (this.ws) {
+            this.ws.removeAllListeners();
+            this.ws.terminate();
+        }
+
         return new Promise((resolve, reject) => {
-            this.ws = new WebSocket(WS_URL);
+            this.ws = new WebSocket(this.url);
 
             this.ws.on('open', async () => {
                 this.log('WebSocket opened');
@@ -520,65 +1163,150 @@ class TradeRepublicWebSocket {
                 }
             });
 
+            this.ws.on('message', (data: Buffer) => this.handleMessage(data.toString()));
+
             this.ws.on('error', (err: Error) => {
                 this.log('WebSocket error', { error: err.message, stack: err.stack });
-                reject(err);
+                const error = new ConnectionError(`WebSocket error: ${err.message}`);
+                this.rejectAll(error);
+                reject(error);
             });
 
             this.ws.on('close', (code: number, reason: Buffer) => {
                 this.log('WebSocket closed', { code, reason: reason.toString() });
+                const error = new ConnectionError(`WebSocket closed (${code})`);
+                this.rejectAll(error);
+                reject(error);
             });
         });
     }
 
     private async authenticate(): Promise<void> {
         const config = {
-            locale: 'en',
+            locale: this.locale,
             platformId: 'webtrading',
             platformVersion: 'chrome - 142.0.0',
             clientId: 'app.traderepublic.com',
             clientVersion: '11.45.0',
         };
 
+        const connected = new Promise<void>((resolve) => {
+            this.onConnected = resolve;
+        });
+
         const connectMsg = `connect 33 ${JSON.stringify(config)}`;
         this.log('Sending connect message', { message: connectMsg });
         this.ws!.send(connectMsg);
 
-        await this.waitForMessage();
+        await connected;
     }
 
-    private async waitForMessage(): Promise<string> {
-        return new Promise((resolve) => {
-            this.ws!.once('message', (data: Buffer) => {
-                const message = data.toString();
-                this.log('Received message', { rawMessage: message });
-                resolve(message);
-            });
-        });
+    /**
+     * Routes an incoming frame to its subscription.
+     * Frames look like `<id> <code> <payload>`, where code is
+     * A (full payload), D (delta to the previous payload), C (subscription closed) or E (error).
+     */
+    private handleMessage(message: string): void {
+        this.log('Received message', { rawMessage: message });
+
+        if (message === 'connected') {
+            this.onConnected?.();
+            this.onConnected = null;
+            return;
+        }
+
+        const match = message.match(/^(\d+) ([ADCE])(?: ([\s\S]*))?$/);
+        if (!match) {
+            this.log('Unexpected message', { message });
+            return;
+        }
+
+        const id = parseInt(match[1], 10);
+        const code = match[2];
+        const payload = match[3] ?? '';
+
+        const subscription = this.subscriptions.get(id);
+        if (!subscription) {
+            // Late frames of subscriptions we already unsubscribed from
+            return;
+        }
+
+        if (code === 'A') {
+            subscription.previous = payload;
+            subscription.resolve(payload);
+        } else if (code === 'D') {
+            if (subscription.previous === undefined) {
+                subscription.reject(new Error(`Delta received before full payload (ID: ${id})`));
+                return;
+            }
+            subscription.previous = applyDelta(subscription.previous, payload);
+            subscription.resolve(subscription.previous);
+        } else if (code === 'E') {
+            subscription.reject(new Error(`Subscription error: ${payload}`));
+        } else if (code === 'C') {
+            subscription.reject(new Error(`Subscription closed without response (ID: ${id})`));
+        }
     }
 
-    private async subscribe<T>(payload: Record<string, unknown>): Promise<T> {
-        this.messageId++;
-        const subMsg = `sub ${this.messageId} ${JSON.stringify(payload)}`;
-        this.log(`Subscribing (ID: ${this.messageId})`, payload);
-        this.ws!.send(subMsg);
-        const response = await this.waitForMessage();
+    private rejectAll(error: Error): void {
+        for (const subscription of this.subscriptions.values()) {
+            subscription.reject(error);
+        }
+        this.subscriptions.clear();
+    }
 
-        const json = this.parseJson(response);
-        if ((json as { errors?: unknown }).errors) {
-            throw new Error(`Subscription error: ${JSON.stringify((json as { errors: unknown }).errors)}`);
+    private async acquireSlot(): Promise<void> {
+        if (this.activeSubscriptions < this.concurrency) {
+            this.activeSubscriptions++;
+            return;
         }
 
-        const unsubMsg = `unsub ${this.messageId}`;
-        this.log(`Unsubscribing (ID: ${this.messageId})`);
-        this.ws!.send(unsubMsg);
-        await this.waitForMessage();
-        return json as T;
+        await new Promise<void>((resolve) => this.waitingForSlot.push(resolve));
+    }
+
+    private releaseSlot(): void {
+        const next = this.waitingForSlot.shift();
+        if (next) {
+            // Hand the slot over directly, the active count stays the same
+            next();
+        } else {
+            this.activeSubscriptions--;
+        }
+    }
+
+    private async subscribe<T>(payload: Record<string, unknown>): Promise<T> {
+        await this.acquireSlot();
+        const id = ++this.messageId;
+
+        try {
+            const response = await new Promise<string>((resolve, reject) => {
+                if (this.ws?.readyState !== WebSocket.OPEN) {
+                    reject(new ConnectionError('WebSocket is not open'));
+                    return;
+                }
+                this.subscriptions.set(id, { resolve, reject });
+                this.log(`Subscribing (ID: ${id})`, payload);
+                this.ws!.send(`sub ${id} ${JSON.stringify(payload)}`);
+            });
+
+            const json = this.parseJson(response);
+            if ((json as { errors?: unknown }).errors) {
+                throw new Error(`Subscription error: ${JSON.stringify((json as { errors: unknown }).errors)}`);
+            }
+            return json as T;
+        } finally {
+            if (this.subscriptions.delete(id) && this.ws?.readyState === WebSocket.OPEN) {
+                this.log(`Unsubscribing (ID: ${id})`);
+                this.ws.send(`unsub ${id}`);
+            }
+            this.releaseSlot();
+        }
     }
 
     private parseJson(msg: string): unknown {
-        const start = msg.indexOf('{');
-        const end = msg.lastIndexOf('}');
+        // Most topics answer with an object, some (like cash) with an array
+        const start = msg.search(/[{[]/);
+        const end = Math.max(msg.lastIndexOf('}'), msg.lastIndexOf(']'));
         const cleaned = start !== -1 && end !== -1 ? msg.slice(start, end + 1) : '{}';
 
         try {
@@ -590,27 +1318,49 @@ class TradeRepublicWebSocket {
         }
     }
 
-    async *fetchAllTransactions(): AsyncGenerator<RawTransaction> {
-        let afterCursor: string | undefined = undefined;
-        let totalFetched = 0;
+    /**
+     * Runs the operation and, when the connection drops, reconnects with the same token and runs it again.
+     * Waits with exponential backoff between attempts and gives up after `maxReconnects` attempts.
+     */
+    private async withReconnect<T>(operation: () => Promise<T>): Promise<T> {
+        let attempt = 0;
 
         while (true) {
-            const page = await this.fetchTransactionPage(afterCursor);
+            try {
+                if (attempt > 0) {
+                    await this.connect();
+                }
+                return await operation();
+            } catch (err) {
+                if (!(err instanceof ConnectionError) || attempt >= this.maxReconnects) {
+                    throw err;
+                }
 
-            if (!page.items || page.items.length === 0) {
-                break;
+                attempt++;
+                const waitSeconds = Math.min(60, Math.pow(2, attempt));
+                logger.warn(`🔌 ${err.message}. Reconnecting in ${waitSeconds}s (attempt ${attempt}/${this.maxReconnects})...`);
+                await new Promise((resolve) => setTimeout(resolve, waitSeconds * 1000));
             }
+        }
+    }
 
-            for (const transaction of page.items) {
-                if (transaction.id) {
-                    const details = await this.fetchTransactionDetails(transaction.id);
-                    Object.assign(transaction, details);
-                    totalFetched++;
-                    yield transaction;
-                }
+    async *fetchAllTransactions(options: TimelineFetchOptions = {}): AsyncGenerator<TimelinePage> {
+        let afterCursor: string | undefined = options.after;
+        let totalFetched = 0;
+
+        while (true) {
+            // A page is only yielded once all its details are fetched, so a reconnect repeats just the current page
+            const { items, reachedKnown, cursor } = await this.withReconnect(() => this.fetchTimelinePage(afterCursor, options));
+
+            totalFetched += items.length;
+            yield { items, cursor: reachedKnown ? undefined : cursor };
+
+            if (reachedKnown) {
+                logger.info('⏹️  Reached already exported transactions, stopping');
+                break;
             }
 
-            afterCursor = page.cursors?.after;
+            afterCursor = cursor;
             if (!afterCursor) {
                 break;
             }
@@ -621,6 +1371,25 @@ class TradeRepublicWebSocket {
         logger.info(`📊 Total transactions fetched: ${totalFetched}`);
     }
 
+    private async fetchTimelinePage(
+        afterCursor: string | undefined,
+        options: TimelineFetchOptions
+    ): Promise<{ items: RawTransaction[]; reachedKnown: boolean; cursor?: string }> {
+        const page = await this.fetchTransactionPage(afterCursor);
+        if (!page.items || page.items.length === 0) {
+            return { items: [], reachedKnown: false };
+        }
+
+        const selected = selectNotExported(page.items, options);
+
+        // Details are requested all at once, the subscription slots limit how many are in flight
+        const items = selected.items.filter((transaction) => transaction.id);
+        const details = await Promise.all(items.map((transaction) => this.fetchTransactionDetails(transaction.id)));
+        items.forEach((transaction, i) => Object.assign(transaction, details[i]));
+
+        return { items, reachedKnown: selected.reachedKnown, cursor: page.cursors?.after };
+    }
+
     private async fetchTransactionPage(afterCursor?: string): Promise<{ items: RawTransaction[]; cursors?: { after?: string } }> {
         const payload: Record<string, unknown> = {
             type: 'timelineTransactions',
@@ -644,6 +1413,76 @@ class TradeRepublicWebSocket {
         return this.subscribe<Partial<RawTransaction>>(payload);
     }
 
+    async fetchPortfolio(): Promise<PortfolioSnapshot> {
+        return this.withReconnect(async () => {
+            const [portfolio, cash, availableCash] = await Promise.all([
+                this.subscribe<{ positions?: RawPortfolioPosition[] }>({ type: 'compactPortfolio', token: this.token }),
+                this.subscribe<RawCashBalance[]>({ type: 'cash', token: this.token }),
+                this.subscribe<RawCashBalance[]>({ type: 'availableCash', token: this.token }),
+            ]);
+
+            // Positions are held in the currency of the account unless they name their own
+            const accountCurrency = cash[0]?.currencyId;
+            const positions = await Promise.all((portfolio.positions || []).map((position) => this.fetchPosition(position, accountCurrency)));
+
+            return {
+                date: new Date(),
+                positions,
+                cash: cash.map((c) => ({
+                    currency: c.currencyId,
+                    amount: c.amount,
+                    available: availableCash.find((a) => a.currencyId === c.currencyId)?.amount,
+                })),
+            };
+        });
+    }
+
+    private async fetchPosition(position: RawPortfolioPosition, accountCurrency?: string): Promise<PortfolioPosition> {
+        const isin = position.instrumentId;
+        const shares = parseAmount(position.netSize) || 0;
+        const averageBuyIn = parseAmount(position.averageBuyIn) || 0;
+
+        const [name, ticker] = await Promise.all([
+            this.fetchInstrumentName(isin),
+            this.subscribe<{ last?: { price?: string } }>({ type: 'ticker', id: `${isin}.LSX`, token: this.token }).catch(() => undefined),
+        ]);
+
+        const currentPrice = parseAmount(ticker?.last?.price);
+        return {
+            isin,
+            name,
+            shares,
+            averageBuyIn,
+            currentPrice,
+            currentValue: currentPrice !== undefined ? shares * currentPrice : undefined,
+            currency: position.currencyId ?? accountCurrency,
+        };
+    }
+
+    async fetchSavingsPlans(): Promise<SavingsPlan[]> {
+        return this.withReconnect(async () => {
+            const response = await this.subscribe<{ savingsPlans?: RawSavingsPlan[] }>({ type: 'savingsPlans', token: this.token });
+            const plans = response.savingsPlans || [];
+
+            return Promise.all(plans.map(async (plan) => ({
+                id: plan.id,
+                isin: plan.instrumentId,
+                name: await this.fetchInstrumentName(plan.instrumentId),
+                amount: plan.amount,
+                currency: 'EUR',
+                interval: plan.interval,
+                nextExecutionDate: plan.nextExecutionDate ? new Date(plan.nextExecutionDate) : undefined,
+                status: plan.paused ? 'paused' : 'active',
+            })));
+        });
+    }
+
+    private async fetchInstrumentName(isin: string): Promise<string | undefined> {
+        const instrument = await this.subscribe<{ shortName?: string; name?: string }>({ type: 'instrument', id: isin, token: this.token })
+            .catch(() => undefined);
+        return instrument?.shortName || instrument?.name;
+    }
+
     close(): void {
         this.ws?.close();
     }
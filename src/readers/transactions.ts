@@ -9,6 +9,8 @@ const FIELD_PARSERS: Partial<Record<keyof Transaction, (v: string) => unknown>>
     type: parseTransactionType,
     assetType: parseAssetType,
     shares: Number, price: Number, amount: Number, fee: Number, tax: Number,
+    ratioFrom: Number, ratioTo: Number,
+    grossAmount: Number, withholdingTax: Number, capitalGainsTax: Number, solidaritySurcharge: Number, churchTax: Number,
     date: (v) => new Date(v),
 };
 
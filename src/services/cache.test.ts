@@ -1,6 +1,7 @@
 import fs from 'fs';
 import { type Symbol } from '../resolvers/index.ts';
 import { CacheService, type SplitRow, type PriceRow } from './cache.ts';
+import { TransactionType } from '../transaction.ts';
 
 const TEST_DB = './test-cache.db';
 
@@ -133,6 +134,22 @@ describe('CacheService', () => {
         expect(splits[0].effective_date).toBe('2023-01-01');
     });
 
+    test('should add splits from transactions', () => {
+        const count = cache.addTransactionSplits([
+            { type: TransactionType.SPLIT, isin: 'US67066G1040', ratioFrom: 1, ratioTo: 10, date: new Date('2024-06-10T22:00:00.000Z'), source: 'trade-republic-ws' },
+            { type: TransactionType.SPLIT, isin: 'US0000000001', ratioFrom: 20, ratioTo: 1, date: new Date('2024-07-01T00:00:00.000Z') },
+            { type: TransactionType.SPLIT, isin: 'US0000000002', date: new Date('2024-07-01T00:00:00.000Z') },
+            { type: TransactionType.BUY, isin: 'US67066G1040', shares: 1, date: new Date('2024-06-11T00:00:00.000Z') },
+        ]);
+
+        expect(count).toBe(2);
+        expect(cache.getSplits('US67066G1040')).toEqual([
+            { isin: 'US67066G1040', type: 'SPLIT', ratio_from: 1, ratio_to: 10, effective_date: '2024-06-10', source: 'trade-republic-ws' },
+        ]);
+        expect(cache.getSplits('US0000000001')[0].type).toBe('REVERSE_SPLIT');
+        expect(cache.getSplits('US0000000002')).toEqual([]);
+    });
+
     test('should set and get prices', () => {
         const isin = 'US0378331005';
         const date = '2024-02-01';
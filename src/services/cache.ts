@@ -1,5 +1,6 @@
 import Database from 'better-sqlite3';
 import { type Symbol, type SymbolOptions } from '../resolvers/index.ts';
+import { TransactionType, type Transaction } from '../transaction.ts';
 
 /**
  * Cached price info from the database
@@ -204,6 +205,29 @@ export class CacheService {
         );
     }
 
+    /**
+     * Add the splits found in transactions to cache
+     * @param transactions - Transactions, only splits with a ratio are stored
+     * @returns Number of stored splits
+     */
+    addTransactionSplits(transactions: Transaction[]): number {
+        let count = 0;
+        for (const tx of transactions) {
+            if (tx.type !== TransactionType.SPLIT || !tx.isin || !tx.date || !tx.ratioFrom || !tx.ratioTo) continue;
+
+            this.addSplit({
+                isin: tx.isin,
+                type: tx.ratioTo < tx.ratioFrom ? 'REVERSE_SPLIT' : 'SPLIT',
+                ratio_from: tx.ratioFrom,
+                ratio_to: tx.ratioTo,
+                effective_date: tx.date.toISOString().slice(0, 10),
+                source: tx.source ?? null,
+            });
+            count++;
+        }
+        return count;
+    }
+
     /**
      * Get price from cache
      * @param isin - ISIN code
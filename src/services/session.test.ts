@@ -0,0 +1,53 @@
+import fs from 'fs';
+import { SessionStore } from './session.ts';
+
+const TEST_FILE = './test-session.json';
+
+describe('SessionStore', () => {
+    let store: SessionStore;
+
+    beforeEach(() => {
+        store = new SessionStore(TEST_FILE);
+        store.clear();
+    });
+
+    afterAll(() => {
+        store.clear();
+    });
+
+    test('should return undefined when nothing is stored', () => {
+        expect(store.get('trade-republic')).toBeUndefined();
+        expect(fs.existsSync(TEST_FILE)).toBe(false);
+    });
+
+    test('should set and get a session', () => {
+        store.set('trade-republic', { session: 'abc', refresh: 'def' });
+
+        expect(store.get('trade-republic')).toEqual({ session: 'abc', refresh: 'def' });
+    });
+
+    test('should only be readable by the owner', () => {
+        fs.writeFileSync(TEST_FILE, '{}', { mode: 0o644 });
+        store.set('trade-republic', { session: 'abc' });
+
+        expect(fs.statSync(TEST_FILE).mode & 0o777).toBe(0o600);
+    });
+
+    test('should delete a single session', () => {
+        store.set('trade-republic', { session: 'abc' });
+        store.set('scalable-capital', { cookies: [] });
+
+        store.delete('trade-republic');
+
+        expect(store.get('trade-republic')).toBeUndefined();
+        expect(store.get('scalable-capital')).toEqual({ cookies: [] });
+    });
+
+    test('should remove the file on clear', () => {
+        store.set('trade-republic', { session: 'abc' });
+
+        store.clear();
+
+        expect(fs.existsSync(TEST_FILE)).toBe(false);
+    });
+});
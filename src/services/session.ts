@@ -0,0 +1,66 @@
+import { chmodSync, existsSync, readFileSync, rmSync, writeFileSync } from 'fs';
+
+/**
+ * Stores broker sessions in a local JSON file, keyed by broker name.
+ * The file holds credentials, so it is only readable by the current user.
+ */
+export class SessionStore {
+    public readonly path: string;
+
+    /**
+     * @param path - Path to the session file
+     */
+    constructor(path: string = './session.json') {
+        this.path = path;
+    }
+
+    /**
+     * Get a stored session
+     * @param key - Broker name
+     * @returns Session data or undefined
+     */
+    get<T>(key: string): T | undefined {
+        return this.read()[key] as T | undefined;
+    }
+
+    /**
+     * Store a session, replacing the previous one
+     * @param key - Broker name
+     * @param session - Session data
+     */
+    set<T>(key: string, session: T): void {
+        const sessions = this.read();
+        sessions[key] = session;
+        this.write(sessions);
+    }
+
+    /**
+     * Remove a stored session
+     * @param key - Broker name
+     */
+    delete(key: string): void {
+        const sessions = this.read();
+        if (!(key in sessions)) return;
+
+        delete sessions[key];
+        this.write(sessions);
+    }
+
+    /**
+     * Remove the session file with all sessions
+     */
+    clear(): void {
+        rmSync(this.path, { force: true });
+    }
+
+    private read(): Record<string, unknown> {
+        if (!existsSync(this.path)) return {};
+        return JSON.parse(readFileSync(this.path, 'utf-8'));
+    }
+
+    private write(sessions: Record<string, unknown>): void {
+        writeFileSync(this.path, JSON.stringify(sessions, null, 2), { mode: 0o600 });
+        // mode is only applied when the file is created
+        chmodSync(this.path, 0o600);
+    }
+}
@@ -0,0 +1,53 @@
+import { mergeTransactions, TransactionType, validateTransaction, type Transaction } from './transaction.ts';
+
+describe('mergeTransactions', () => {
+    const existing: Transaction[] = [
+        { id: 'tx-2', type: TransactionType.BUY, status: 'PENDING', date: new Date('2025-06-02T00:00:00.000Z') },
+        { id: 'tx-1', type: TransactionType.DEPOSIT, date: new Date('2025-06-01T00:00:00.000Z') },
+    ];
+
+    test('puts new transactions in front of existing ones', () => {
+        const fetched: Transaction[] = [
+            { id: 'tx-3', type: TransactionType.SELL, date: new Date('2025-06-03T00:00:00.000Z') },
+        ];
+
+        const result = mergeTransactions(existing, fetched);
+
+        expect(result.map((tx) => tx.id)).toEqual(['tx-3', 'tx-2', 'tx-1']);
+    });
+
+    test('replaces existing transactions with the same id', () => {
+        const fetched: Transaction[] = [
+            { id: 'tx-3', type: TransactionType.SELL, date: new Date('2025-06-03T00:00:00.000Z') },
+            { id: 'tx-2', type: TransactionType.BUY, status: 'EXECUTED', date: new Date('2025-06-02T00:00:00.000Z') },
+        ];
+
+        const result = mergeTransactions(existing, fetched);
+
+        expect(result).toHaveLength(3);
+        expect(result.find((tx) => tx.id === 'tx-2')!.status).toBe('EXECUTED');
+    });
+
+    test('keeps existing transactions without id', () => {
+        const withoutId: Transaction[] = [{ type: TransactionType.FEE, amount: -1 }];
+
+        const result = mergeTransactions(withoutId, []);
+
+        expect(result).toEqual(withoutId);
+    });
+});
+
+describe('validateTransaction', () => {
+    test('requires an ISIN for corporate actions', () => {
+        expect(validateTransaction({ type: TransactionType.SPLIT, ratioFrom: 1, ratioTo: 10 })).toBe(false);
+        expect(validateTransaction({ type: TransactionType.SPLIT, isin: 'US67066G1040', ratioFrom: 1, ratioTo: 10 })).toBe(true);
+    });
+
+    test('rejects an invalid related ISIN', () => {
+        expect(validateTransaction({ type: TransactionType.MERGER, isin: 'US0000000002', relatedIsin: 'unknown' })).toBe(false);
+    });
+
+    test('rejects a non-positive ratio', () => {
+        expect(validateTransaction({ type: TransactionType.SPLIT, isin: 'US67066G1040', ratioFrom: 0, ratioTo: 10 })).toBe(false);
+    });
+});
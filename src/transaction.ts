@@ -20,6 +20,12 @@ export enum TransactionType {
     GIFT = 'gift',
     FEE = 'fee',
     TAX = 'tax',
+    // Corporate actions
+    SPLIT = 'split',
+    SPINOFF = 'spinoff',
+    MERGER = 'merger',
+    TRANSFER_IN = 'transfer_in',
+    TRANSFER_OUT = 'transfer_out',
 }
 
 export enum AssetType {
@@ -54,6 +60,16 @@ export interface Transaction {
     fee?: number;
     /** Taxes withheld */
     tax?: number;
+    /** Income before fees and taxes, e.g. the gross dividend */
+    grossAmount?: number;
+    /** Foreign withholding tax, part of `tax` */
+    withholdingTax?: number;
+    /** German capital gains tax (Kapitalertragsteuer), part of `tax` */
+    capitalGainsTax?: number;
+    /** Solidarity surcharge, part of `tax` */
+    solidaritySurcharge?: number;
+    /** Church tax, part of `tax` */
+    churchTax?: number;
     /** Transaction date */
     date?: Date;
     /** ISO 4217 currency code (e.g., 'EUR', 'USD') */
@@ -62,13 +78,89 @@ export interface Transaction {
     comment?: string;
     /** Source metadata */
     source?: string;
+    /** Folder with the original documents of the transaction (e.g. trade confirmations) */
+    documents?: string;
+    /** Id of the savings plan that executed this transaction */
+    savingsPlan?: string;
+    /** Shares before a corporate action, e.g. 1 for a 1:10 split */
+    ratioFrom?: number;
+    /** Shares after a corporate action, e.g. 10 for a 1:10 split */
+    ratioTo?: number;
+    /** Other security of a corporate action: the previous ISIN of a merger, the parent of a spin-off */
+    relatedIsin?: string;
+}
+
+export interface SavingsPlan {
+    /** Unique identifier */
+    id: string;
+    /** ISIN of the instrument that is bought */
+    isin: string;
+    /** Security name */
+    name?: string;
+    /** Amount invested per execution */
+    amount: number;
+    /** ISO 4217 currency code */
+    currency: string;
+    /** Execution interval as reported by the broker (e.g. 'weekly', 'monthly') */
+    interval: string;
+    /** Date of the next execution */
+    nextExecutionDate?: Date;
+    /** Plan status (e.g. 'active', 'paused') */
+    status: string;
+}
+
+/**
+ * Position of a portfolio snapshot
+ */
+export interface PortfolioPosition {
+    isin: string;
+    /** Security name */
+    name?: string;
+    shares: number;
+    /** Average price paid per share */
+    averageBuyIn: number;
+    /** Last price on the exchange, if a quote was available */
+    currentPrice?: number;
+    currentValue?: number;
+    /** Currency of the buy-in and value, undefined if neither the position nor the account names one */
+    currency?: string;
+}
+
+/**
+ * Cash balance of a portfolio snapshot
+ */
+export interface CashBalance {
+    /** ISO 4217 currency code */
+    currency: string;
+    amount: number;
+    /** Part of the amount that is not reserved for open orders */
+    available?: number;
+}
+
+/**
+ * Current state of the account, as opposed to the transaction history
+ */
+export interface PortfolioSnapshot {
+    /** When the snapshot was taken */
+    date: Date;
+    positions: PortfolioPosition[];
+    cash: CashBalance[];
 }
 
 const TRANSACTION_TYPE_ALIASES: Record<string, TransactionType> = {
     distribution: TransactionType.DIVIDEND,
     taxes: TransactionType.TAX,
+    'reverse split': TransactionType.SPLIT,
+    'spin-off': TransactionType.SPINOFF,
 };
 
+/** Transaction types that always refer to a security */
+const SECURITY_TYPES: TransactionType[] = [
+    TransactionType.BUY, TransactionType.SELL, TransactionType.DIVIDEND,
+    TransactionType.SPLIT, TransactionType.SPINOFF, TransactionType.MERGER,
+    TransactionType.TRANSFER_IN, TransactionType.TRANSFER_OUT,
+];
+
 export function parseTransactionType(type?: string): TransactionType | undefined {
     if (!type) return undefined;
     const normalized = type.toLowerCase().trim();
@@ -99,13 +191,23 @@ export function validateTransaction(tx: Transaction | null | undefined): tx is T
         return false;
     }
 
-    if (tx.type == TransactionType.BUY || tx.type == TransactionType.SELL || tx.type == TransactionType.DIVIDEND) {
+    if (SECURITY_TYPES.includes(tx.type)) {
         if (!tx.isin || !isValidIsin(tx.isin)) {
             logger.error({ tx }, `Invalid ISIN: ${tx.isin}`);
             return false;
         }
     }
 
+    if (tx.relatedIsin && !isValidIsin(tx.relatedIsin)) {
+        logger.error({ tx }, 'Invalid related ISIN');
+        return false;
+    }
+
+    if ((tx.ratioFrom !== undefined && tx.ratioFrom <= 0) || (tx.ratioTo !== undefined && tx.ratioTo <= 0)) {
+        logger.error({ tx }, `Ratio must be positive: ${tx.ratioFrom}:${tx.ratioTo}`);
+        return false;
+    }
+
     if (tx.shares && tx.shares < 0) {
         logger.error({ tx }, `Shares must be non-negative: ${tx.shares}`);
         return false;
@@ -123,3 +225,12 @@ export function validateTransaction(tx: Transaction | null | undefined): tx is T
 
     return true;
 }
+
+/**
+ * Merge freshly fetched transactions into a previously exported list.
+ * Fetched transactions come first and replace existing ones with the same id (e.g. a pending order that got executed).
+ */
+export function mergeTransactions(existing: Transaction[], fetched: Transaction[]): Transaction[] {
+    const fetchedIds = new Set(fetched.map((tx) => tx.id).filter(Boolean));
+    return [...fetched, ...existing.filter((tx) => !tx.id || !fetchedIds.has(tx.id))];
+}
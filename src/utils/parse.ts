@@ -43,7 +43,7 @@ export function parseAmountUS(str: unknown): number | undefined {
     if (!str || typeof str !== 'string') return undefined;
 
     // remove currency symbols, + and whitespace
-    const s = str.replace(/[$\+\s]/g, '').trim();
+    const s = str.replace(/[$€\+\s]/g, '').trim();
 
     if (s === '') return undefined;
     if (s === '0' || s === '0,00' || s === '0.00' || s === 'Free') return 0;
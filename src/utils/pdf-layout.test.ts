@@ -0,0 +1,52 @@
+import { findColumns, groupLines, splitCells, type PdfTextItem } from './pdf-layout.ts';
+
+const item = (text: string, x: number, y: number): PdfTextItem => ({ text, x, y, width: text.length * 5, height: 10 });
+
+describe('pdf layout utils', () => {
+    describe('groupLines', () => {
+        test('groups items by baseline from top to bottom', () => {
+            const lines = groupLines([
+                item('second', 10, 100),
+                item('line', 50, 100.5),
+                item('first', 10, 200),
+                item(' ', 40, 200),
+            ]);
+
+            expect(lines.map((line) => line.text)).toEqual(['first', 'second line']);
+        });
+
+        test('joins items that touch without a space', () => {
+            const lines = groupLines([item('Überw', 10, 100), item('eisung', 35, 100)]);
+
+            expect(lines[0].text).toBe('Überweisung');
+        });
+    });
+
+    describe('findColumns', () => {
+        test('merges header labels of several words', () => {
+            const [header] = groupLines([
+                item('STÜCK', 100, 100),
+                item('KURS', 200, 100),
+                item('PRO', 224, 100),
+                item('STÜCK', 244, 100),
+                item('BETRAG', 350, 100),
+            ]);
+
+            expect(findColumns(header)).toEqual([
+                { label: 'STÜCK', x: 100 },
+                { label: 'KURS PRO STÜCK', x: 200 },
+                { label: 'BETRAG', x: 350 },
+            ]);
+        });
+    });
+
+    describe('splitCells', () => {
+        test('assigns items to columns by their center', () => {
+            const columns = [{ label: 'TYP', x: 0 }, { label: 'EINGANG', x: 100 }, { label: 'AUSGANG', x: 200 }];
+            // Right aligned amount that starts left of its header
+            const [line] = groupLines([item('Handel', 0, 100), item('1.234,56 €', 180, 100)]);
+
+            expect(splitCells(line, columns)).toEqual(['Handel', '', '1.234,56 €']);
+        });
+    });
+});
@@ -0,0 +1,98 @@
+/**
+ * Text item of a PDF page with its position, in PDF units with the origin at the bottom left
+ */
+export interface PdfTextItem {
+    text: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+/**
+ * Items printed on the same baseline, ordered from left to right
+ */
+export interface PdfLine {
+    y: number;
+    text: string;
+    items: PdfTextItem[];
+}
+
+/**
+ * Column of a table, spanning from its header label to the next one
+ */
+export interface PdfColumn {
+    label: string;
+    x: number;
+}
+
+/**
+ * Group the items of a page into lines, from top to bottom
+ * @param items - Text items of one page
+ * @param tolerance - Maximum difference of y for items of the same line
+ */
+export function groupLines(items: PdfTextItem[], tolerance: number = 2): PdfLine[] {
+    const sorted = items.filter((item) => item.text.trim().length > 0).sort((a, b) => b.y - a.y || a.x - b.x);
+
+    const lines: PdfLine[] = [];
+    for (const item of sorted) {
+        const line = lines.find((l) => Math.abs(l.y - item.y) <= tolerance);
+        if (line) {
+            line.items.push(item);
+        } else {
+            lines.push({ y: item.y, text: '', items: [item] });
+        }
+    }
+
+    for (const line of lines) {
+        line.items.sort((a, b) => a.x - b.x);
+        line.text = joinItems(line.items);
+    }
+    return lines;
+}
+
+/**
+ * Derive table columns from a header line. Header labels of several words are merged,
+ * the gap between words is smaller than the gap between columns.
+ */
+export function findColumns(header: PdfLine): PdfColumn[] {
+    const groups: PdfTextItem[][] = [];
+    for (const item of header.items) {
+        const group = groups[groups.length - 1];
+        const previous = group?.[group.length - 1];
+        if (previous && item.x - (previous.x + previous.width) < previous.height) {
+            group.push(item);
+        } else {
+            groups.push([item]);
+        }
+    }
+
+    return groups.map((group) => ({ label: joinItems(group), x: group[0].x }));
+}
+
+/**
+ * Split a line into the cells of the given columns. An item belongs to the column its center is in,
+ * which also holds for right aligned amounts that start left of their header.
+ * @returns One cell per column, empty if the line has no text in the column
+ */
+export function splitCells(line: PdfLine, columns: PdfColumn[]): string[] {
+    const cells: PdfTextItem[][] = columns.map(() => []);
+    for (const item of line.items) {
+        const center = item.x + item.width / 2;
+        let index = columns.findIndex((column) => column.x > center) - 1;
+        if (index === -2) index = columns.length - 1;
+        cells[Math.max(index, 0)].push(item);
+    }
+    return cells.map(joinItems);
+}
+
+/**
+ * Join items of a line, items that touch are parts of the same word
+ */
+function joinItems(items: PdfTextItem[]): string {
+    return items.reduce((text, item, i) => {
+        const previous = items[i - 1];
+        const touching = previous && item.x - (previous.x + previous.width) < previous.height * 0.15;
+        return touching ? text + item.text.trim() : [text, item.text.trim()].filter(Boolean).join(' ');
+    }, '');
+}